@@ -17,6 +17,7 @@ import {
   ImplementationPhase,
   PrescriptiveTask,
 } from './types.js';
+import { redactor } from '../../secrets/SecretRedactor.js';
 
 const execAsync = promisify(exec);
 
@@ -251,13 +252,13 @@ TODO: Implement
         phase: phase.phaseNumber,
         command: phase.validationCommand,
         success: true,
-        output: stdout || stderr,
+        output: redactor.redact(stdout || stderr),
         durationSeconds,
         retryCount: 0,
       };
     } catch (error) {
       const durationSeconds = (Date.now() - startTime) / 1000;
-      const output = error instanceof Error ? error.message : String(error);
+      const output = redactor.redact(error instanceof Error ? error.message : String(error));
 
       return {
         phase: phase.phaseNumber,
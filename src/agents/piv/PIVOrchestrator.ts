@@ -69,7 +69,8 @@ export class PIVOrchestrator {
       const planResult = await this.planPhase.execute(
         state.primeResult.contextPath,
         epic,
-        state.primeResult
+        state.primeResult,
+        project.name
       );
       state.planResult = planResult;
       console.log('[PIV] Plan phase complete');
@@ -17,10 +17,21 @@ import {
   ValidationCommand,
   CodeConventions,
 } from './types.js';
+import { TaskEstimator } from '../../timing/TaskEstimator.js';
+
+// Used when there is no task history to estimate from
+const DEFAULT_PHASE_MINUTES = 15;
+
+// Phases are implemented by the Execute phase, which runs on Haiku
+const PHASE_TASK_TYPE = 'code_generation';
+const PHASE_MODEL = 'haiku';
 
 export class PlanPhase {
-  constructor(_workspacePath: string) {
+  private estimator: TaskEstimator;
+
+  constructor(_workspacePath: string, estimator: TaskEstimator = new TaskEstimator()) {
     // workspacePath stored for future use
+    this.estimator = estimator;
   }
 
   /**
@@ -29,7 +40,8 @@ export class PlanPhase {
   async execute(
     contextPath: string,
     epic: Epic,
-    primeResult: PrimeResult
+    primeResult: PrimeResult,
+    projectName?: string
   ): Promise<PlanResult> {
     console.log(`[Plan] Creating implementation plan for ${epic.id}...`);
 
@@ -37,7 +49,7 @@ export class PlanPhase {
     await fs.readFile(contextPath, 'utf-8');
 
     // 2. Design solution approach
-    const phases = await this.designPhases(epic, primeResult);
+    const phases = await this.designPhases(epic, primeResult, projectName);
 
     // 3. Create validation commands
     const validationCommands = this.createValidationCommands(phases);
@@ -67,7 +79,11 @@ export class PlanPhase {
   /**
    * Design implementation phases based on epic and context
    */
-  private async designPhases(epic: Epic, primeResult: PrimeResult): Promise<ImplementationPhase[]> {
+  private async designPhases(
+    epic: Epic,
+    primeResult: PrimeResult,
+    projectName?: string
+  ): Promise<ImplementationPhase[]> {
     const phases: ImplementationPhase[] = [];
 
     // This is a simplified version - in production, this would use
@@ -77,13 +93,14 @@ export class PlanPhase {
     let phaseNumber = 1;
 
     for (const task of epic.tasks) {
+      const tasks = this.createPrescriptiveTasks(task, phaseNumber, primeResult.conventions);
       const phase: ImplementationPhase = {
         phaseNumber,
         name: `Phase ${phaseNumber}: ${task}`,
         description: task,
-        tasks: this.createPrescriptiveTasks(task, phaseNumber, primeResult.conventions),
+        tasks,
         validationCommand: this.inferValidationCommand(task, primeResult.techStack),
-        estimatedMinutes: 15, // Default estimate
+        estimatedMinutes: await this.estimatePhaseMinutes(projectName),
       };
 
       phases.push(phase);
@@ -93,6 +110,26 @@ export class PlanPhase {
     return phases;
   }
 
+  /**
+   * Median duration of similar completed tasks, or the default without history
+   */
+  private async estimatePhaseMinutes(projectName: string | undefined): Promise<number> {
+    try {
+      const estimate = await this.estimator.estimate({
+        taskType: PHASE_TASK_TYPE,
+        projectName,
+        modelUsed: PHASE_MODEL,
+      });
+      if (estimate) {
+        return Math.max(1, Math.round(estimate.p50Seconds / 60));
+      }
+    } catch (error) {
+      // Planning must not depend on the database being reachable
+      console.warn('[Plan] Task estimate unavailable, using default:', error);
+    }
+    return DEFAULT_PHASE_MINUTES;
+  }
+
   /**
    * Create prescriptive tasks for a phase
    */
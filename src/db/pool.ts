@@ -16,6 +16,13 @@ export interface DatabaseConfig {
   connectionTimeoutMillis?: number;
 }
 
+/**
+ * Anything that can run a query: the shared pool or a transaction client
+ */
+export interface Queryable {
+  query<T extends pg.QueryResultRow = any>(text: string, params?: any[]): Promise<pg.QueryResult<T>>;
+}
+
 class DatabasePool {
   private static instance: DatabasePool;
   private pool: pg.Pool;
@@ -76,6 +83,26 @@ class DatabasePool {
     return this.pool.connect();
   }
 
+  /**
+   * Run a callback inside a transaction on a dedicated client
+   *
+   * Commits when the callback resolves and rolls back when it throws.
+   */
+  public async transaction<T>(fn: (client: pg.PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.getClient();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   public async healthCheck(): Promise<{ healthy: boolean; message: string }> {
     try {
       const result = await this.pool.query('SELECT NOW()');
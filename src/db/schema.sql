@@ -22,6 +22,14 @@ CREATE TABLE IF NOT EXISTS secrets (
   -- Metadata
   secret_type TEXT,  -- api_key, token, password, certificate, etc.
   provider TEXT,     -- anthropic, openai, cloudflare, gcloud, stripe, etc.
+  metadata JSONB,    -- Non-secret attributes, e.g. client_email of a service account key
+
+  -- Versioning
+  current_version INTEGER NOT NULL DEFAULT 1,  -- Matches secret_versions.version of the live value
+
+  -- Lifecycle
+  expires_at TIMESTAMP,    -- Value stops working at this time (NULL = never)
+  rotate_after TIMESTAMP,  -- Rotation is recommended after this time
 
   -- Constraints
   CHECK (key_path ~ '^[a-z0-9/_-]+$'),  -- Only lowercase, numbers, /, _, -
@@ -31,6 +39,110 @@ CREATE TABLE IF NOT EXISTS secrets (
 CREATE INDEX idx_secrets_key_path ON secrets(key_path);
 CREATE INDEX idx_secrets_provider ON secrets(provider);
 CREATE INDEX idx_secrets_created_at ON secrets(created_at);
+CREATE INDEX idx_secrets_expires_at ON secrets(expires_at) WHERE expires_at IS NOT NULL;
+CREATE INDEX idx_secrets_rotate_after ON secrets(rotate_after) WHERE rotate_after IS NOT NULL;
+
+-- Every encrypted value a secret has ever held (append-only)
+CREATE TABLE IF NOT EXISTS secret_versions (
+  id SERIAL PRIMARY KEY,
+  secret_id INTEGER NOT NULL REFERENCES secrets(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  encrypted_value BYTEA NOT NULL,  -- AES-256-GCM encrypted
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  created_by TEXT,
+  change_type TEXT NOT NULL DEFAULT 'store',  -- store, rollback
+  rolled_back_from INTEGER,  -- Source version when change_type = 'rollback'
+
+  -- Constraints
+  UNIQUE (secret_id, version),
+  CHECK (version > 0),
+  CHECK (change_type IN ('store', 'rollback'))
+);
+
+CREATE INDEX idx_secret_versions_secret ON secret_versions(secret_id);
+
+-- Progress of master key rotations (re-encrypting stored values with a new key)
+CREATE TABLE IF NOT EXISTS secret_reencryption_jobs (
+  id SERIAL PRIMARY KEY,
+  target_key_id TEXT NOT NULL,  -- Keyring ID every value is moved to
+  status TEXT NOT NULL DEFAULT 'running',  -- running, completed, failed
+  phase TEXT NOT NULL DEFAULT 'secrets',  -- Table currently being processed
+  last_processed_id INTEGER NOT NULL DEFAULT 0,  -- Resume cursor within the current phase
+  rows_scanned INTEGER NOT NULL DEFAULT 0,
+  secrets_reencrypted INTEGER NOT NULL DEFAULT 0,
+  versions_reencrypted INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  error_message TEXT,
+
+  -- Constraints
+  CHECK (status IN ('running', 'completed', 'failed')),
+  CHECK (phase IN ('secrets', 'secret_versions', 'done'))
+);
+
+CREATE INDEX idx_reencryption_jobs_target ON secret_reencryption_jobs(target_key_id, status);
+
+-- Provider key rotations (new key, verification, grace period, revocation of the old key)
+CREATE TABLE IF NOT EXISTS secret_rotations (
+  id SERIAL PRIMARY KEY,
+  key_path TEXT NOT NULL,
+  provider TEXT NOT NULL,  -- ApiKeyCreator provider: google, gemini, stripe, github
+  status TEXT NOT NULL DEFAULT 'creating',  -- Step in progress, or the final state
+  failed_step TEXT,  -- Step to retry when resuming a failed rotation
+  old_version INTEGER NOT NULL,  -- secret_versions.version of the key being replaced
+  new_version INTEGER,
+  old_key_id TEXT,
+  new_key_id TEXT,
+  old_metadata JSONB,  -- Restored on rollback
+  grace_period_seconds INTEGER NOT NULL,
+  rotation_interval_seconds INTEGER,  -- Gap between the old key's update and rotate_after, carried over to the new key
+  revoke_after TIMESTAMP,  -- Old key is revoked once this passes
+  verify_output TEXT,  -- Output of the project's verification hook (redacted)
+  started_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  error_message TEXT,
+
+  -- Constraints
+  CHECK (status IN ('creating', 'verifying', 'grace_period', 'completed', 'failed', 'rolled_back')),
+  CHECK (failed_step IS NULL OR failed_step IN ('creating', 'verifying', 'revoking', 'rolling_back'))
+);
+
+-- At most one unfinished rotation per secret
+CREATE UNIQUE INDEX idx_secret_rotations_active ON secret_rotations(key_path)
+  WHERE status NOT IN ('completed', 'rolled_back');
+CREATE INDEX idx_secret_rotations_revoke_after ON secret_rotations(revoke_after) WHERE status = 'grace_period';
+
+-- Per-project command that checks a freshly rotated key works
+CREATE TABLE IF NOT EXISTS secret_rotation_hooks (
+  project_name TEXT PRIMARY KEY,
+  verify_command TEXT NOT NULL,  -- Gets ROTATED_SECRET_KEY_PATH and ROTATED_SECRET_VALUE; exit 0 = key works
+  working_dir TEXT,
+  timeout_seconds INTEGER NOT NULL DEFAULT 60,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Audit trail of every secrets operation (values are never logged)
+CREATE TABLE IF NOT EXISTS secret_access_log (
+  id SERIAL PRIMARY KEY,
+  accessed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  caller_project TEXT,  -- Project scope of the caller (SSE ?project= or PROJECT_NAME)
+  transport TEXT NOT NULL,  -- stdio, sse, api (direct SecretsManager use)
+  tool_name TEXT,  -- MCP tool that triggered the access
+  operation TEXT NOT NULL,  -- store, retrieve, list, delete, update_metadata, ...
+  key_path TEXT,  -- NULL for list operations
+  outcome TEXT NOT NULL,  -- success, not_found, denied, error
+  error_message TEXT,
+
+  -- Constraints
+  CHECK (transport IN ('stdio', 'sse', 'api')),
+  CHECK (outcome IN ('success', 'not_found', 'denied', 'error'))
+);
+
+CREATE INDEX idx_secret_access_log_time ON secret_access_log(accessed_at);
+CREATE INDEX idx_secret_access_log_key_path ON secret_access_log(key_path);
+CREATE INDEX idx_secret_access_log_project ON secret_access_log(caller_project);
 
 -- ============================================================================
 -- PORT ALLOCATION SYSTEM
@@ -40,19 +152,28 @@ CREATE TABLE IF NOT EXISTS project_port_ranges (
   id SERIAL PRIMARY KEY,
   project_id INTEGER NOT NULL UNIQUE,
   project_name TEXT NOT NULL UNIQUE,
-  port_range_start INTEGER NOT NULL,
-  port_range_end INTEGER NOT NULL,
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
 
   -- Constraints
-  CHECK (port_range_start >= 3000 AND port_range_start <= 65535),
-  CHECK (port_range_end >= 3000 AND port_range_end <= 65535),
-  CHECK (port_range_end - port_range_start = 99),  -- Exactly 100 ports
   CHECK (project_name ~ '^[a-z0-9-]+$')  -- Only lowercase, numbers, hyphens
 );
 
-CREATE UNIQUE INDEX idx_port_ranges_start ON project_port_ranges(port_range_start);
-CREATE UNIQUE INDEX idx_port_ranges_end ON project_port_ranges(port_range_end);
+-- The ports a project owns: one or more non-overlapping blocks of any size
+CREATE TABLE IF NOT EXISTS port_range_blocks (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL REFERENCES project_port_ranges(project_id),
+  port_start INTEGER NOT NULL,
+  port_end INTEGER NOT NULL,  -- Inclusive
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  -- Constraints
+  CHECK (port_start >= 3000 AND port_end <= 65535),
+  CHECK (port_end >= port_start),
+  -- No port belongs to two blocks, whichever projects own them
+  EXCLUDE USING gist (int4range(port_start, port_end, '[]') WITH &&)
+);
+
+CREATE INDEX idx_port_range_blocks_project ON port_range_blocks(project_id);
 
 CREATE TABLE IF NOT EXISTS port_allocations (
   id SERIAL PRIMARY KEY,
@@ -64,25 +185,97 @@ CREATE TABLE IF NOT EXISTS port_allocations (
   allocated_at TIMESTAMP NOT NULL DEFAULT NOW(),
   allocated_by TEXT,  -- Supervisor or user that allocated it
   status TEXT NOT NULL DEFAULT 'active',  -- active, released
+  last_seen_alive_at TIMESTAMP,  -- Last time reconcile_ports found something listening
+  dead_since TIMESTAMP,  -- First failed probe since it was last seen alive (NULL = alive or never probed)
+  idempotency_key TEXT,  -- Caller-chosen key; a retried allocate_port with the same key gets the same port
+  lease_ttl_seconds INTEGER,  -- Set for leases: released unless renewed within this long
+  lease_expires_at TIMESTAMP,
+  last_heartbeat_at TIMESTAMP,
 
   -- Constraints
   CHECK (port >= 3000 AND port <= 65535),
-  CHECK (status IN ('active', 'released'))
+  CHECK (status IN ('active', 'released')),
+  CHECK (lease_ttl_seconds IS NULL OR lease_ttl_seconds > 0),
+  CHECK ((lease_ttl_seconds IS NULL) = (lease_expires_at IS NULL))
 );
 
 CREATE INDEX idx_port_allocations_project ON port_allocations(project_id);
 CREATE INDEX idx_port_allocations_port ON port_allocations(port);
 CREATE INDEX idx_port_allocations_status ON port_allocations(status);
+CREATE UNIQUE INDEX idx_port_allocations_idempotency ON port_allocations(project_id, idempotency_key)
+  WHERE status = 'active' AND idempotency_key IS NOT NULL;
+CREATE INDEX idx_port_allocations_dead_since ON port_allocations(dead_since) WHERE status = 'active';
+CREATE INDEX idx_port_allocations_lease_expires ON port_allocations(lease_expires_at)
+  WHERE status = 'active' AND lease_expires_at IS NOT NULL;
+
+-- Every holder each port has had (kept as text so it outlives decommissioned projects)
+CREATE TABLE IF NOT EXISTS port_allocation_history (
+  id SERIAL PRIMARY KEY,
+  port INTEGER NOT NULL,
+  project_name TEXT NOT NULL,
+  service_name TEXT NOT NULL,
+  allocated_by TEXT,
+  allocated_at TIMESTAMP NOT NULL,
+  released_at TIMESTAMP  -- NULL while held
+);
+
+CREATE INDEX idx_port_history_port ON port_allocation_history(port, allocated_at DESC);
+CREATE INDEX idx_port_history_service ON port_allocation_history(project_name, service_name, released_at DESC);
+
+-- Written by trigger so every path (release, reaper, lease sweeper, decommission) is covered
+CREATE OR REPLACE FUNCTION record_port_allocation_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'active' AND (TG_OP = 'INSERT' OR OLD.status = 'released') THEN
+    INSERT INTO port_allocation_history (port, project_name, service_name, allocated_by, allocated_at)
+    SELECT NEW.port, project_name, NEW.service_name, NEW.allocated_by, NEW.allocated_at
+    FROM project_port_ranges
+    WHERE project_id = NEW.project_id;
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'active' AND NEW.status = 'released' THEN
+    UPDATE port_allocation_history
+    SET released_at = NOW()
+    WHERE port = NEW.port AND released_at IS NULL;
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'active' AND NEW.service_name <> OLD.service_name THEN
+    -- Renamed in place: same holder, so keep it one entry under the new name
+    UPDATE port_allocation_history
+    SET service_name = NEW.service_name
+    WHERE port = NEW.port AND released_at IS NULL;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- AFTER, not BEFORE: BEFORE INSERT also fires for rows that end up on the ON CONFLICT path
+CREATE TRIGGER port_allocation_history
+  AFTER INSERT OR UPDATE ON port_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION record_port_allocation_history();
+
+-- Decommissioned projects: a snapshot of what they held (their ports are free for reuse)
+CREATE TABLE IF NOT EXISTS archived_port_ranges (
+  id SERIAL PRIMARY KEY,
+  project_id INTEGER NOT NULL,
+  project_name TEXT NOT NULL,
+  blocks JSONB NOT NULL,  -- [{portStart, portEnd}]
+  allocations JSONB NOT NULL,  -- Every allocation row the project had, as released
+  tunnel_routes JSONB NOT NULL,  -- Routes torn down with it
+  range_created_at TIMESTAMP NOT NULL,
+  decommissioned_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  decommissioned_by TEXT,
+  forced BOOLEAN NOT NULL DEFAULT false  -- Ports were still live
+);
+
+CREATE INDEX idx_archived_port_ranges_project ON archived_port_ranges(project_name);
 
 -- Ensure allocated port is within project's range
 CREATE OR REPLACE FUNCTION check_port_within_range()
 RETURNS TRIGGER AS $$
 BEGIN
   IF NOT EXISTS (
-    SELECT 1 FROM project_port_ranges
+    SELECT 1 FROM port_range_blocks
     WHERE project_id = NEW.project_id
-    AND NEW.port >= port_range_start
-    AND NEW.port <= port_range_end
+    AND NEW.port >= port_start
+    AND NEW.port <= port_end
   ) THEN
     RAISE EXCEPTION 'Port % is outside project % range', NEW.port, NEW.project_id;
   END IF;
@@ -125,12 +318,15 @@ CREATE TABLE IF NOT EXISTS task_executions (
   parallel_execution BOOLEAN DEFAULT FALSE,
   parent_task_id TEXT,  -- If this is a subtask
 
+  -- Liveness: running tasks whose heartbeats stop for too long are marked abandoned (NULL until the first one)
+  last_heartbeat_at TIMESTAMP,
+
   -- Outcome
-  status TEXT NOT NULL DEFAULT 'running',  -- running, completed, failed
+  status TEXT NOT NULL DEFAULT 'running',  -- running, completed, failed, abandoned
   error_message TEXT,
 
   -- Constraints
-  CHECK (status IN ('running', 'completed', 'failed')),
+  CHECK (status IN ('running', 'completed', 'failed', 'abandoned')),
   CHECK (complexity IN ('simple', 'moderate', 'complex'))
 );
 
@@ -138,6 +334,7 @@ CREATE INDEX idx_task_executions_type ON task_executions(task_type);
 CREATE INDEX idx_task_executions_project ON task_executions(project_name);
 CREATE INDEX idx_task_executions_started ON task_executions(started_at);
 CREATE INDEX idx_task_executions_status ON task_executions(status);
+CREATE INDEX idx_task_executions_heartbeat ON task_executions(last_heartbeat_at) WHERE status = 'running';
 CREATE INDEX idx_task_executions_desc_fts ON task_executions USING gin(to_tsvector('english', task_description));
 
 -- ============================================================================
@@ -282,15 +479,31 @@ CREATE TABLE IF NOT EXISTS secret_detection_patterns (
   secret_type TEXT NOT NULL,  -- api_key, token, password
   key_path_template TEXT NOT NULL,  -- meta/{provider}/api_key
   enabled BOOLEAN DEFAULT TRUE,
-  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Tell running detectors to reload (AutoSecretDetector LISTENs on this channel)
+CREATE OR REPLACE FUNCTION notify_secret_detection_patterns_changed()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM pg_notify('secret_detection_patterns_changed', TG_OP);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER secret_detection_patterns_changed
+  AFTER INSERT OR UPDATE OR DELETE ON secret_detection_patterns
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION notify_secret_detection_patterns_changed();
+
 -- Insert default patterns
 INSERT INTO secret_detection_patterns (provider, pattern, secret_type, key_path_template) VALUES
   ('anthropic', '^sk-ant-[a-zA-Z0-9-_]{95,}$', 'api_key', 'meta/anthropic/api_key'),
   ('openai', '^sk-[a-zA-Z0-9]{48}$', 'api_key', 'meta/openai/api_key'),
   ('stripe_live', '^sk_live_[a-zA-Z0-9]{24,}$', 'api_key', 'project/{project}/stripe_live_key'),
   ('stripe_test', '^sk_test_[a-zA-Z0-9]{24,}$', 'api_key', 'project/{project}/stripe_test_key'),
+  ('stripe_restricted', '^rk_(live|test)_[a-zA-Z0-9]{24,}$', 'api_key', 'project/{project}/stripe_restricted_key'),
   ('github', '^ghp_[a-zA-Z0-9]{36}$', 'token', 'meta/github/personal_access_token'),
   ('cloudflare', '^[a-zA-Z0-9]{40}$', 'token', 'meta/cloudflare/api_token'),
   ('google_api', '^AIza[a-zA-Z0-9_-]{35}$', 'api_key', 'meta/google/api_key')
@@ -305,15 +518,17 @@ CREATE OR REPLACE VIEW available_ports AS
 SELECT
   pr.project_id,
   pr.project_name,
-  pr.port_range_start + gs AS port
+  gs AS port
 FROM
   project_port_ranges pr
-CROSS JOIN
-  generate_series(0, 99) AS gs
+JOIN
+  port_range_blocks b ON b.project_id = pr.project_id
+CROSS JOIN LATERAL
+  generate_series(b.port_start, b.port_end) AS gs
 WHERE
   NOT EXISTS (
     SELECT 1 FROM port_allocations pa
-    WHERE pa.port = pr.port_range_start + gs
+    WHERE pa.port = gs
     AND pa.status = 'active'
   );
 
@@ -332,7 +547,7 @@ SELECT
 FROM
   task_executions
 WHERE
-  status = 'completed'
+  status = 'completed'  -- Also keeps out running and abandoned tasks, which have no duration
 GROUP BY
   task_type, project_name;
 
@@ -341,15 +556,23 @@ GROUP BY
 -- ============================================================================
 
 -- Meta supervisor port range (3000-3099)
-INSERT INTO project_port_ranges (project_id, project_name, port_range_start, port_range_end)
-VALUES (0, 'meta', 3000, 3099)
+INSERT INTO project_port_ranges (project_id, project_name)
+VALUES (0, 'meta')
 ON CONFLICT (project_id) DO NOTHING;
 
+INSERT INTO port_range_blocks (project_id, port_start, port_end)
+SELECT 0, 3000, 3099
+WHERE NOT EXISTS (SELECT 1 FROM port_range_blocks WHERE project_id = 0);
+
 -- Shared services port range (9000-9099) - first 100 of shared range
-INSERT INTO project_port_ranges (project_id, project_name, port_range_start, port_range_end)
-VALUES (999, 'shared-services', 9000, 9099)
+INSERT INTO project_port_ranges (project_id, project_name)
+VALUES (999, 'shared-services')
 ON CONFLICT (project_id) DO NOTHING;
 
+INSERT INTO port_range_blocks (project_id, port_start, port_end)
+SELECT 999, 9000, 9099
+WHERE NOT EXISTS (SELECT 1 FROM port_range_blocks WHERE project_id = 999);
+
 -- Allocate port 3000 for meta supervisor MCP server
 INSERT INTO port_allocations (project_id, port, service_name, description, allocated_by, status)
 VALUES (0, 3000, 'meta-mcp-server', 'Meta supervisor MCP server', 'system', 'active')
@@ -373,29 +596,59 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- Function: Allocate next available port for project
+-- (PortManager does the same in a transaction; this is for manual use)
+-- Ports another service released within p_reuse_cooldown_seconds are skipped, as in PortManager
 CREATE OR REPLACE FUNCTION allocate_next_port(
   p_project_id INTEGER,
   p_service_name TEXT,
   p_description TEXT DEFAULT NULL,
-  p_cloudflare_hostname TEXT DEFAULT NULL
+  p_cloudflare_hostname TEXT DEFAULT NULL,
+  p_reuse_cooldown_seconds INTEGER DEFAULT 0
 )
 RETURNS INTEGER AS $$
 DECLARE
   allocated_port INTEGER;
+  v_project_name TEXT;
 BEGIN
-  -- Get first available port from view
-  SELECT port INTO allocated_port
-  FROM available_ports
-  WHERE project_id = p_project_id
+  -- Serialize allocations within the project until the transaction ends
+  SELECT project_name INTO v_project_name
+  FROM project_port_ranges WHERE project_id = p_project_id FOR UPDATE;
+
+  -- Get first available port from view, outside its reuse cooldown
+  SELECT a.port INTO allocated_port
+  FROM available_ports a
+  WHERE a.project_id = p_project_id
+    AND NOT EXISTS (
+      SELECT 1 FROM port_allocation_history recent
+      WHERE recent.port = a.port
+        AND recent.released_at > NOW() - make_interval(secs => p_reuse_cooldown_seconds)
+        AND (recent.project_name, recent.service_name) IS DISTINCT FROM (v_project_name, p_service_name)
+    )
+  ORDER BY a.port
   LIMIT 1;
 
   IF allocated_port IS NULL THEN
     RAISE EXCEPTION 'No available ports for project %', p_project_id;
   END IF;
 
-  -- Allocate the port
+  -- Allocate the port, taking over the row of a released allocation
   INSERT INTO port_allocations (project_id, port, service_name, description, cloudflare_hostname, allocated_by, status)
-  VALUES (p_project_id, allocated_port, p_service_name, p_description, p_cloudflare_hostname, 'system', 'active');
+  VALUES (p_project_id, allocated_port, p_service_name, p_description, p_cloudflare_hostname, 'system', 'active')
+  ON CONFLICT (port) DO UPDATE SET
+    project_id = EXCLUDED.project_id,
+    service_name = EXCLUDED.service_name,
+    description = EXCLUDED.description,
+    cloudflare_hostname = EXCLUDED.cloudflare_hostname,
+    allocated_by = EXCLUDED.allocated_by,
+    idempotency_key = NULL,
+    lease_ttl_seconds = NULL,
+    lease_expires_at = NULL,
+    last_heartbeat_at = NULL,
+    allocated_at = NOW(),
+    status = 'active',
+    last_seen_alive_at = NULL,
+    dead_since = NULL
+  WHERE port_allocations.status = 'released';
 
   RETURN allocated_port;
 END;
@@ -153,10 +153,15 @@ class DatabaseSetup {
       });
 
       // Test data
-      const portRanges = await client.query('SELECT * FROM project_port_ranges');
+      const portRanges = await client.query(`
+        SELECT pr.project_name, string_agg(b.port_start || '-' || b.port_end, ', ' ORDER BY b.port_start) AS blocks
+        FROM project_port_ranges pr
+        JOIN port_range_blocks b ON b.project_id = pr.project_id
+        GROUP BY pr.project_name
+      `);
       console.log(`\n  📌 Seeded ${portRanges.rows.length} port ranges:`);
       portRanges.rows.forEach((row) => {
-        console.log(`    - ${row.project_name}: ${row.port_range_start}-${row.port_range_end}`);
+        console.log(`    - ${row.project_name}: ${row.blocks}`);
       });
 
     } finally {
@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { HttpClient, HttpResponse } from '../secrets/HttpClient.js';
+import { signJwtRS256 } from '../secrets/jwt.js';
+import { ServiceAccountKey } from '../secrets/serviceAccountKey.js';
+
+export interface ServiceAccount {
+  email: string;
+  uniqueId: string;
+  displayName?: string;
+}
+
+/**
+ * Creates Google Cloud service accounts and their keys
+ *
+ * IamServiceAccountProvider talks to the IAM REST API;
+ * FakeServiceAccountProvider keeps everything in memory for offline tests.
+ */
+export interface ServiceAccountProvider {
+  /**
+   * Create a service account, or return it if it already exists
+   */
+  ensureServiceAccount(gcloudProjectId: string, accountId: string, displayName: string): Promise<ServiceAccount>;
+
+  /**
+   * Add project-level IAM role bindings for the account (existing ones are kept)
+   */
+  grantRoles(gcloudProjectId: string, email: string, roles: string[]): Promise<void>;
+
+  /**
+   * Create a new key for the account
+   *
+   * @returns The service-account JSON key document
+   */
+  createKey(gcloudProjectId: string, email: string): Promise<string>;
+
+  /**
+   * Delete a key (succeeds if it is already gone)
+   */
+  deleteKey(gcloudProjectId: string, email: string, keyId: string): Promise<void>;
+}
+
+const CLOUD_PLATFORM_SCOPE = 'https://www.googleapis.com/auth/cloud-platform';
+
+// Refresh the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+/**
+ * ServiceAccountProvider backed by the IAM and Resource Manager REST APIs
+ *
+ * Authenticates as an admin service account (JWT bearer grant); its key
+ * is loaded lazily so the provider can be built before secrets are read.
+ */
+export class IamServiceAccountProvider implements ServiceAccountProvider {
+  private httpClient: HttpClient;
+  private loadAdminKey: () => Promise<ServiceAccountKey>;
+  private iamApiBase: string;
+  private resourceManagerApiBase: string;
+  private accessToken?: { token: string; expiresAt: number };
+
+  constructor(
+    httpClient: HttpClient,
+    loadAdminKey: () => Promise<ServiceAccountKey>,
+    options?: { iamApiBase?: string; resourceManagerApiBase?: string }
+  ) {
+    this.httpClient = httpClient;
+    this.loadAdminKey = loadAdminKey;
+    this.iamApiBase = options?.iamApiBase ?? 'https://iam.googleapis.com';
+    this.resourceManagerApiBase = options?.resourceManagerApiBase ?? 'https://cloudresourcemanager.googleapis.com';
+  }
+
+  async ensureServiceAccount(gcloudProjectId: string, accountId: string, displayName: string): Promise<ServiceAccount> {
+    const response = await this.call('POST', `${this.iamApiBase}/v1/projects/${gcloudProjectId}/serviceAccounts`, {
+      accountId,
+      serviceAccount: { displayName },
+    }, [409]);
+
+    const account = response.status === 409
+      ? await this.call(
+          'GET',
+          `${this.iamApiBase}/v1/projects/${gcloudProjectId}/serviceAccounts/` +
+          `${accountId}@${gcloudProjectId}.iam.gserviceaccount.com`
+        ).then((existing) => JSON.parse(existing.body))
+      : JSON.parse(response.body);
+
+    return { email: account.email, uniqueId: account.uniqueId, displayName: account.displayName };
+  }
+
+  async grantRoles(gcloudProjectId: string, email: string, roles: string[]): Promise<void> {
+    const projectUrl = `${this.resourceManagerApiBase}/v1/projects/${gcloudProjectId}`;
+    const member = `serviceAccount:${email}`;
+
+    const policy = JSON.parse((await this.call('POST', `${projectUrl}:getIamPolicy`, {})).body);
+    policy.bindings = policy.bindings ?? [];
+
+    let changed = false;
+    for (const role of roles) {
+      let binding = policy.bindings.find((b: { role: string }) => b.role === role);
+      if (!binding) {
+        binding = { role, members: [] };
+        policy.bindings.push(binding);
+      }
+      if (!binding.members.includes(member)) {
+        binding.members.push(member);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      // The etag from getIamPolicy makes this fail rather than clobber a concurrent change
+      await this.call('POST', `${projectUrl}:setIamPolicy`, { policy });
+    }
+  }
+
+  async createKey(gcloudProjectId: string, email: string): Promise<string> {
+    const response = await this.call(
+      'POST',
+      `${this.iamApiBase}/v1/projects/${gcloudProjectId}/serviceAccounts/${email}/keys`,
+      { privateKeyType: 'TYPE_GOOGLE_CREDENTIALS_FILE' }
+    );
+    return Buffer.from(JSON.parse(response.body).privateKeyData, 'base64').toString('utf-8');
+  }
+
+  async deleteKey(gcloudProjectId: string, email: string, keyId: string): Promise<void> {
+    await this.call(
+      'DELETE',
+      `${this.iamApiBase}/v1/projects/${gcloudProjectId}/serviceAccounts/${email}/keys/${keyId}`,
+      undefined,
+      [404]
+    );
+  }
+
+  /**
+   * Make an authenticated JSON request
+   *
+   * @param allowedStatuses - Non-2xx statuses the caller handles itself
+   */
+  private async call(
+    method: 'GET' | 'POST' | 'DELETE',
+    url: string,
+    body?: unknown,
+    allowedStatuses: number[] = []
+  ): Promise<HttpResponse> {
+    const response = await this.httpClient.request({
+      method,
+      url,
+      headers: {
+        Authorization: `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if ((response.status < 200 || response.status >= 300) && !allowedStatuses.includes(response.status)) {
+      throw new Error(`Google API ${method} ${url} failed: ${googleErrorMessage(response)}`);
+    }
+    return response;
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return this.accessToken.token;
+    }
+
+    const adminKey = await this.loadAdminKey();
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const assertion = signJwtRS256({
+      iss: adminKey.client_email,
+      scope: CLOUD_PLATFORM_SCOPE,
+      aud: adminKey.token_uri,
+      iat: issuedAt,
+      exp: issuedAt + 3600,
+    }, adminKey.private_key);
+
+    const response = await this.httpClient.request({
+      method: 'POST',
+      url: adminKey.token_uri,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }).toString(),
+    });
+    if (response.status !== 200) {
+      throw new Error(`Google token exchange failed: ${googleErrorMessage(response)}`);
+    }
+
+    const { access_token, expires_in } = JSON.parse(response.body);
+    this.accessToken = { token: access_token, expiresAt: Date.now() + expires_in * 1000 };
+    return access_token;
+  }
+}
+
+/**
+ * Error message from a Google API error response
+ */
+function googleErrorMessage(response: HttpResponse): string {
+  try {
+    const body = JSON.parse(response.body);
+    return body.error?.message ?? body.error_description ?? body.error ?? `HTTP ${response.status}`;
+  } catch {
+    return `HTTP ${response.status}`;
+  }
+}
+
+/**
+ * In-memory ServiceAccountProvider for offline tests
+ *
+ * Keys are real RSA keys in the real JSON format, so they pass the same
+ * validation as keys from Google.
+ */
+export class FakeServiceAccountProvider implements ServiceAccountProvider {
+  readonly accounts = new Map<string, ServiceAccount>();
+  readonly roles = new Map<string, Set<string>>();
+  readonly keyIds = new Map<string, string[]>();
+
+  async ensureServiceAccount(gcloudProjectId: string, accountId: string, displayName: string): Promise<ServiceAccount> {
+    const email = `${accountId}@${gcloudProjectId}.iam.gserviceaccount.com`;
+
+    let account = this.accounts.get(email);
+    if (!account) {
+      account = { email, uniqueId: `1${String(this.accounts.size + 1).padStart(20, '0')}`, displayName };
+      this.accounts.set(email, account);
+    }
+    return account;
+  }
+
+  async grantRoles(_gcloudProjectId: string, email: string, roles: string[]): Promise<void> {
+    const granted = this.roles.get(email) ?? new Set<string>();
+    roles.forEach((role) => granted.add(role));
+    this.roles.set(email, granted);
+  }
+
+  async createKey(gcloudProjectId: string, email: string): Promise<string> {
+    const account = this.accounts.get(email);
+    if (!account) {
+      throw new Error(`Service account ${email} does not exist`);
+    }
+
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const keyId = crypto.randomBytes(20).toString('hex');
+    this.keyIds.set(email, [...(this.keyIds.get(email) ?? []), keyId]);
+
+    const key: ServiceAccountKey = {
+      type: 'service_account',
+      project_id: gcloudProjectId,
+      private_key_id: keyId,
+      private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+      client_email: email,
+      client_id: account.uniqueId,
+      auth_uri: 'https://accounts.google.com/o/oauth2/auth',
+      token_uri: 'https://oauth2.googleapis.com/token',
+    };
+    return JSON.stringify(key, null, 2);
+  }
+
+  async deleteKey(_gcloudProjectId: string, email: string, keyId: string): Promise<void> {
+    this.keyIds.set(email, (this.keyIds.get(email) ?? []).filter((id) => id !== keyId));
+  }
+}
@@ -1,14 +1,17 @@
 import dotenv from 'dotenv';
 import db from './db/pool.js';
+import { SecretsKeyring } from './secrets/SecretsKeyring.js';
+import { installConsoleRedaction } from './secrets/SecretRedactor.js';
 
 // Load environment variables
 dotenv.config();
+installConsoleRedaction();
 
 async function main() {
   console.log('🚀 Starting Supervisor Service...');
 
   // Verify environment variables
-  const requiredEnvVars = ['ENCRYPTION_KEY', 'DB_HOST', 'DB_NAME', 'DB_USER'];
+  const requiredEnvVars = ['DB_HOST', 'DB_NAME', 'DB_USER'];
   const missingEnvVars = requiredEnvVars.filter((varName) => !process.env[varName]);
 
   if (missingEnvVars.length > 0) {
@@ -16,11 +19,13 @@ async function main() {
     process.exit(1);
   }
 
-  // Verify encryption key format
-  const encryptionKey = process.env.ENCRYPTION_KEY || '';
-  if (encryptionKey.length !== 64) {
-    console.error('❌ ENCRYPTION_KEY must be 64 hex characters (32 bytes)');
-    console.error('   Generate one with: openssl rand -hex 32');
+  // Verify encryption keyring
+  let keyring: SecretsKeyring;
+  try {
+    keyring = SecretsKeyring.fromEnv();
+  } catch (error) {
+    console.error(`❌ ${error instanceof Error ? error.message : error}`);
+    console.error('   Generate a key with: openssl rand -hex 32');
     process.exit(1);
   }
 
@@ -88,7 +93,8 @@ async function main() {
   console.log('   4. Track tasks: Use mcp__meta__start_task tool');
   console.log('\n🔧 Configuration:');
   console.log(`   • Database: ${process.env.DB_HOST}:${process.env.DB_PORT}/${process.env.DB_NAME}`);
-  console.log(`   • Encryption: ${encryptionKey.substring(0, 16)}...${encryptionKey.substring(48)}`);
+  console.log(`   • Secrets backend: ${process.env.SECRETS_BACKEND || 'postgres'}`);
+  console.log(`   • Encryption: active key ${keyring.activeKeyId} (keyring: ${keyring.keyIds.join(', ')})`);
   console.log(`   • Environment: ${process.env.NODE_ENV || 'development'}`);
 }
 
@@ -26,22 +26,65 @@ import {
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { SecretsManager } from '../secrets/SecretsManager.js';
-import { PortManager } from '../ports/PortManager.js';
+import { SecretsKeyring } from '../secrets/SecretsKeyring.js';
+import { SecretsBackend, secretsBackendFromEnv } from '../secrets/SecretsBackend.js';
+import { AutoSecretDetector } from '../secrets/AutoSecretDetector.js';
+import { SERVICE_ACCOUNT_SECRET_TYPE } from '../secrets/serviceAccountKey.js';
+import { installConsoleRedaction, redactor } from '../secrets/SecretRedactor.js';
+import {
+  SecretAccessContext,
+  SecretAccessOutcome,
+  SecretOperation,
+} from '../secrets/SecretAuditLog.js';
+import { DEFAULT_RANGE_SIZE, PortManager } from '../ports/PortManager.js';
 import { TaskTimer } from '../timing/TaskTimer.js';
+import { TaskEstimator, TaskComplexity } from '../timing/TaskEstimator.js';
 
 const app = express();
 const PORT = 8082;
 
+installConsoleRedaction();
+
 // Initialize managers (shared across all connections)
-const encryptionKey = process.env.ENCRYPTION_KEY || '';
-if (!encryptionKey || encryptionKey.length !== 64) {
-  console.error('ENCRYPTION_KEY must be set and be 64 hex characters (32 bytes)');
+let keyring: SecretsKeyring;
+let secretsBackend: SecretsBackend;
+try {
+  keyring = SecretsKeyring.fromEnv();
+  secretsBackend = secretsBackendFromEnv(keyring);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
   process.exit(1);
 }
 
-const secretsManager = new SecretsManager(encryptionKey);
-const portManager = new PortManager();
-const taskTimer = new TaskTimer();
+const secretsManager = new SecretsManager(keyring, {
+  expiredSecretPolicy: process.env.SECRETS_EXPIRED_POLICY === 'refuse' ? 'refuse' : 'warn',
+  backend: secretsBackend,
+});
+const portManager = new PortManager({
+  reuseCooldownSeconds: process.env.PORT_REUSE_COOLDOWN_MINUTES
+    ? parseFloat(process.env.PORT_REUSE_COOLDOWN_MINUTES) * 60
+    : undefined,
+});
+const taskTimer = new TaskTimer({
+  staleAfterSeconds: process.env.TASK_STALE_AFTER_MINUTES
+    ? parseFloat(process.env.TASK_STALE_AFTER_MINUTES) * 60
+    : undefined,
+});
+const taskEstimator = new TaskEstimator();
+
+// Only used to feed detection patterns to the redactor
+const secretDetector = new AutoSecretDetector();
+secretDetector.loadPatterns().catch((error) => {
+  console.error('Failed to load secret detection patterns:', error instanceof Error ? error.message : error);
+});
+secretDetector.watchPatternChanges().catch((error) => {
+  console.error('Failed to watch secret detection patterns:', error instanceof Error ? error.message : error);
+});
+
+// Secrets stored by earlier runs must be masked from the first tool result on
+const redactionValuesLoaded = secretsManager.loadRedactionValues().catch((error) => {
+  console.error('Failed to load secret values for redaction:', error instanceof Error ? error.message : error);
+});
 
 // CORS middleware
 app.use((req, res, next) => {
@@ -110,6 +153,14 @@ function createToolsForProject(projectName: string): Tool[] {
             type: 'string',
             description: 'Provider name: anthropic, openai, cloudflare, gcloud, stripe, etc.',
           },
+          expiresAt: {
+            type: 'string',
+            description: 'Optional: ISO timestamp when this value stops working',
+          },
+          rotateAfter: {
+            type: 'string',
+            description: 'Optional: ISO timestamp after which the value should be rotated',
+          },
         },
         required: ['keyPath', 'value'],
       },
@@ -126,10 +177,69 @@ function createToolsForProject(projectName: string): Tool[] {
             type: 'string',
             description: 'Hierarchical key path of the secret to retrieve',
           },
+          version: {
+            type: 'number',
+            description: 'Optional: retrieve a specific historical version instead of the current value',
+          },
+          allowExpired: {
+            type: 'boolean',
+            description: 'Return the value even if it has expired and expired secrets are refused (default: false)',
+          },
         },
         required: ['keyPath'],
       },
     },
+    {
+      name: 'mcp__meta__list_expiring_secrets',
+      description: isMetaProject
+        ? 'List secrets that are expired, expire within N days, or are due for rotation'
+        : `List secrets for project ${projectName} that are expired, expiring, or due for rotation`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          withinDays: {
+            type: 'number',
+            description: 'Look-ahead window in days (default: 30)',
+          },
+        },
+      },
+    },
+    {
+      name: 'mcp__meta__list_secret_versions',
+      description: isMetaProject
+        ? 'List the version history of a secret (metadata only, no values)'
+        : `List the version history of a secret for project ${projectName}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          keyPath: {
+            type: 'string',
+            description: 'Hierarchical key path of the secret',
+          },
+        },
+        required: ['keyPath'],
+      },
+    },
+    {
+      name: 'mcp__meta__rollback_secret',
+      description: isMetaProject
+        ? 'Roll a secret back to a previous version (recorded as a new version)'
+        : `Roll a secret for project ${projectName} back to a previous version`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          keyPath: {
+            type: 'string',
+            description: 'Hierarchical key path of the secret',
+          },
+          version: {
+            type: 'number',
+            description: 'Version number to restore (see mcp__meta__list_secret_versions)',
+          },
+        },
+        required: ['keyPath', 'version'],
+      },
+    },
     {
       name: 'mcp__meta__list_secrets',
       description: isMetaProject
@@ -150,6 +260,54 @@ function createToolsForProject(projectName: string): Tool[] {
       },
     },
 
+    {
+      name: 'mcp__meta__secret_audit',
+      description: isMetaProject
+        ? 'Query the secret access audit log (who accessed which secret, when, and the outcome)'
+        : `Query the secret access audit log for project ${projectName}`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          keyPath: {
+            type: 'string',
+            description: 'Optional: exact key path to filter by',
+          },
+          keyPathPrefix: {
+            type: 'string',
+            description: 'Optional: key path prefix to filter by (e.g., project/consilio/)',
+          },
+          project: {
+            type: 'string',
+            description: isMetaProject
+              ? 'Optional: caller project scope to filter by'
+              : `Caller project scope (must be ${projectName})`,
+          },
+          operation: {
+            type: 'string',
+            enum: ['store', 'retrieve', 'list', 'delete', 'update_metadata', 'list_versions', 'retrieve_version', 'rollback', 'export_env', 'move'],
+            description: 'Optional: operation to filter by',
+          },
+          outcome: {
+            type: 'string',
+            enum: ['success', 'not_found', 'denied', 'error'],
+            description: 'Optional: outcome to filter by',
+          },
+          since: {
+            type: 'string',
+            description: 'Optional: ISO timestamp, only entries at or after this time',
+          },
+          until: {
+            type: 'string',
+            description: 'Optional: ISO timestamp, only entries at or before this time',
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum entries to return (default: 100)',
+          },
+        },
+      },
+    },
+
     // ==================== PORTS ====================
     {
       name: 'mcp__meta__allocate_port',
@@ -177,6 +335,22 @@ function createToolsForProject(projectName: string): Tool[] {
             type: 'string',
             description: 'Optional Cloudflare hostname (e.g., service.153.se)',
           },
+          idempotencyKey: {
+            type: 'string',
+            description: 'Optional: retrying with the same key returns the port the first call allocated',
+          },
+          rangeSize: {
+            type: 'number',
+            description: 'Optional: number of ports to reserve if the project has no range yet (default: 100, max: 1000)',
+          },
+          leaseTtlSeconds: {
+            type: 'number',
+            description: 'Optional: allocate as a lease that is released unless renewed (mcp__meta__renew_port_lease) within this many seconds',
+          },
+          sticky: {
+            type: 'boolean',
+            description: 'If true, get the port this service last held back when it is free',
+          },
         },
         required: ['projectName', 'serviceName'],
       },
@@ -230,6 +404,25 @@ function createToolsForProject(projectName: string): Tool[] {
         required: ['port'],
       },
     },
+    {
+      name: 'mcp__meta__renew_port_lease',
+      description: 'Heartbeat for leased ports: push their lease expiry out again',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ports: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'Leased ports to renew',
+          },
+          ttlSeconds: {
+            type: 'number',
+            description: 'Optional: new lease length (default: the length it was allocated with)',
+          },
+        },
+        required: ['ports'],
+      },
+    },
 
     // ==================== TASKS ====================
     {
@@ -263,10 +456,36 @@ function createToolsForProject(projectName: string): Tool[] {
             enum: ['simple', 'moderate', 'complex'],
             description: 'Task complexity level',
           },
+          modelUsed: {
+            type: 'string',
+            description: 'Model running the task (e.g., sonnet, haiku)',
+          },
+          parentTaskId: {
+            type: 'string',
+            description: 'Task ID this is a subtask of',
+          },
+          parallelExecution: {
+            type: 'boolean',
+            description: 'Runs alongside its parallel sibling subtasks (default: false)',
+          },
         },
         required: ['taskId', 'taskType', 'taskDescription'],
       },
     },
+    {
+      name: 'mcp__meta__task_heartbeat',
+      description: 'Signal that a running task is still alive (once a task has sent one, going TASK_STALE_AFTER_MINUTES without another marks it abandoned)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          taskId: {
+            type: 'string',
+            description: 'Task ID to keep alive',
+          },
+        },
+        required: ['taskId'],
+      },
+    },
     {
       name: 'mcp__meta__complete_task',
       description: 'Mark a task as completed',
@@ -306,16 +525,61 @@ function createToolsForProject(projectName: string): Tool[] {
         },
       },
     },
+    {
+      name: 'mcp__meta__estimate_task',
+      description: 'Estimate task duration (p50/p90) from similar completed tasks, with a confidence score',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          taskType: {
+            type: 'string',
+            description: 'Task type (e.g., file_search, epic_creation, code_generation)',
+          },
+          projectName: {
+            type: 'string',
+            description: 'Project the task belongs to (favours its history)',
+          },
+          modelUsed: {
+            type: 'string',
+            description: 'Model that will run the task (e.g., sonnet, haiku)',
+          },
+          complexity: {
+            type: 'string',
+            enum: ['simple', 'moderate', 'complex'],
+            description: 'Task complexity level',
+          },
+          filesChanged: {
+            type: 'number',
+            description: 'Expected number of files changed',
+          },
+          linesChanged: {
+            type: 'number',
+            description: 'Expected number of lines changed',
+          },
+        },
+        required: ['taskType'],
+      },
+    },
   ];
 
   return tools;
 }
 
+/**
+ * Audit operation recorded for each key-path-scoped secret tool
+ */
+const SECRET_TOOL_OPERATIONS: Record<string, SecretOperation> = {
+  mcp__meta__store_secret: 'store',
+  mcp__meta__retrieve_secret: 'retrieve',
+  mcp__meta__list_secret_versions: 'list_versions',
+  mcp__meta__rollback_secret: 'rollback',
+};
+
 /**
  * Project-scoping middleware for tool handlers
  * Filters data based on project context
  */
-function applyScopeFilter(projectName: string, args: any, toolName: string): any {
+async function applyScopeFilter(projectName: string, args: any, toolName: string): Promise<any> {
   const isMetaProject = projectName === 'meta';
 
   // Meta project has full access
@@ -324,15 +588,31 @@ function applyScopeFilter(projectName: string, args: any, toolName: string): any
   }
 
   // For other projects, enforce scoping
-  if (toolName === 'mcp__meta__store_secret' || toolName === 'mcp__meta__retrieve_secret') {
+  if (
+    toolName === 'mcp__meta__store_secret' ||
+    toolName === 'mcp__meta__retrieve_secret' ||
+    toolName === 'mcp__meta__list_secret_versions' ||
+    toolName === 'mcp__meta__rollback_secret'
+  ) {
     // Ensure keyPath starts with project/{projectName}/
     if (args.keyPath && !args.keyPath.startsWith(`project/${projectName}/`)) {
+      await secretsManager.recordAccess(
+        SECRET_TOOL_OPERATIONS[toolName],
+        args.keyPath,
+        'denied',
+        { project: projectName, transport: 'sse', toolName }
+      );
       throw new Error(
         `Access denied: Project ${projectName} can only access secrets under project/${projectName}/`
       );
     }
   }
 
+  if (toolName === 'mcp__meta__secret_audit') {
+    // Force project filter to current project
+    args.project = projectName;
+  }
+
   if (toolName === 'mcp__meta__allocate_port') {
     // Ensure projectName matches
     if (args.projectName && args.projectName !== projectName) {
@@ -349,7 +629,11 @@ function applyScopeFilter(projectName: string, args: any, toolName: string): any
     args.projectName = projectName;
   }
 
-  if (toolName === 'mcp__meta__start_task' || toolName === 'mcp__meta__get_task_stats') {
+  if (
+    toolName === 'mcp__meta__start_task' ||
+    toolName === 'mcp__meta__get_task_stats' ||
+    toolName === 'mcp__meta__estimate_task'
+  ) {
     // Auto-set projectName if not provided
     if (!args.projectName) {
       args.projectName = projectName;
@@ -371,12 +655,18 @@ function filterResponseData(projectName: string, data: any, toolName: string): a
   }
 
   // For other projects, filter results
-  if (toolName === 'mcp__meta__list_secrets' && data.secrets) {
+  if (
+    (toolName === 'mcp__meta__list_secrets' || toolName === 'mcp__meta__list_expiring_secrets') &&
+    data.secrets
+  ) {
     // Only show secrets for this project
     data.secrets = data.secrets.filter((s: any) =>
       s.keyPath.startsWith(`project/${projectName}/`)
     );
     data.count = data.secrets.length;
+    if (data.expiredCount !== undefined) {
+      data.expiredCount = data.secrets.filter((s: any) => s.expired).length;
+    }
   }
 
   if (toolName === 'mcp__meta__list_ports' && data.allocations) {
@@ -420,28 +710,41 @@ app.get('/sse', async (req, res) => {
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args = {} } = request.params;
+    const accessContext: SecretAccessContext = { project: projectName, transport: 'sse', toolName: name };
 
     try {
       // Apply project scoping to arguments
-      const scopedArgs = applyScopeFilter(projectName, args, name);
+      const scopedArgs = await applyScopeFilter(projectName, args, name);
 
       let result: any;
 
       switch (name) {
         // ==================== SECRETS ====================
         case 'mcp__meta__store_secret': {
-          const secret = await secretsManager.store(
-            scopedArgs.keyPath as string,
-            scopedArgs.value as string,
-            {
-              description: scopedArgs.description as string | undefined,
-              secretType: scopedArgs.secretType as string | undefined,
-              provider: scopedArgs.provider as string | undefined,
-            }
-          );
+          const storeOptions = {
+            description: scopedArgs.description as string | undefined,
+            secretType: scopedArgs.secretType as string | undefined,
+            provider: scopedArgs.provider as string | undefined,
+            expiresAt: scopedArgs.expiresAt ? new Date(scopedArgs.expiresAt as string) : undefined,
+            rotateAfter: scopedArgs.rotateAfter ? new Date(scopedArgs.rotateAfter as string) : undefined,
+          };
+          const secret = storeOptions.secretType === SERVICE_ACCOUNT_SECRET_TYPE
+            ? await secretsManager.storeServiceAccountKey(
+                scopedArgs.keyPath as string,
+                scopedArgs.value as string,
+                storeOptions,
+                accessContext
+              )
+            : await secretsManager.store(
+                scopedArgs.keyPath as string,
+                scopedArgs.value as string,
+                storeOptions,
+                accessContext
+              );
           result = {
             success: true,
             keyPath: secret.keyPath,
+            version: secret.currentVersion,
             createdAt: secret.createdAt,
             message: 'Secret stored successfully',
           };
@@ -449,27 +752,98 @@ app.get('/sse', async (req, res) => {
         }
 
         case 'mcp__meta__retrieve_secret': {
-          const value = await secretsManager.retrieve(scopedArgs.keyPath as string);
+          const version = scopedArgs.version as number | undefined;
+          const status = version === undefined
+            ? await secretsManager.retrieveWithStatus(scopedArgs.keyPath as string, accessContext, {
+                allowExpired: scopedArgs.allowExpired as boolean | undefined,
+              })
+            : null;
+          const value = version !== undefined
+            ? await secretsManager.retrieveVersion(scopedArgs.keyPath as string, version, accessContext)
+            : status?.value ?? null;
           if (value === null) {
             result = {
               success: false,
-              error: `Secret not found: ${scopedArgs.keyPath}`,
+              error: version !== undefined
+                ? `Secret version not found: ${scopedArgs.keyPath} (version ${version})`
+                : `Secret not found: ${scopedArgs.keyPath}`,
             };
           } else {
             result = {
               success: true,
               keyPath: scopedArgs.keyPath,
+              version,
               value,
+              expiresAt: status?.expiresAt,
+              rotateAfter: status?.rotateAfter,
+              warning: status?.warning,
             };
           }
           break;
         }
 
+        case 'mcp__meta__list_expiring_secrets': {
+          const withinDays = (scopedArgs.withinDays as number | undefined) ?? 30;
+          const secrets = await secretsManager.listExpiring(withinDays, accessContext);
+          result = {
+            success: true,
+            withinDays,
+            count: secrets.length,
+            expiredCount: secrets.filter((s) => s.expired).length,
+            secrets: secrets.map((s) => ({
+              keyPath: s.keyPath,
+              provider: s.provider,
+              expiresAt: s.expiresAt,
+              rotateAfter: s.rotateAfter,
+              expired: s.expired,
+              rotationDue: s.rotationDue,
+              daysUntilExpiry: s.daysUntilExpiry,
+            })),
+          };
+          // Apply project filtering
+          result = filterResponseData(projectName, result, name);
+          break;
+        }
+
+        case 'mcp__meta__list_secret_versions': {
+          const versions = await secretsManager.listVersions(scopedArgs.keyPath as string, accessContext);
+          result = {
+            success: versions.length > 0,
+            keyPath: scopedArgs.keyPath,
+            count: versions.length,
+            versions,
+            error: versions.length === 0 ? `Secret not found: ${scopedArgs.keyPath}` : undefined,
+          };
+          break;
+        }
+
+        case 'mcp__meta__rollback_secret': {
+          const secret = await secretsManager.rollback(
+            scopedArgs.keyPath as string,
+            scopedArgs.version as number,
+            { createdBy: projectName },
+            accessContext
+          );
+          result = secret
+            ? {
+                success: true,
+                keyPath: secret.keyPath,
+                restoredVersion: scopedArgs.version,
+                currentVersion: secret.currentVersion,
+                message: `Rolled back ${secret.keyPath} to version ${scopedArgs.version} (now version ${secret.currentVersion})`,
+              }
+            : {
+                success: false,
+                error: `Secret version not found: ${scopedArgs.keyPath} (version ${scopedArgs.version})`,
+              };
+          break;
+        }
+
         case 'mcp__meta__list_secrets': {
           const secrets = await secretsManager.list({
             provider: scopedArgs.provider as string | undefined,
             secretType: scopedArgs.secretType as string | undefined,
-          });
+          }, accessContext);
           result = {
             success: true,
             count: secrets.length,
@@ -480,6 +854,8 @@ app.get('/sse', async (req, res) => {
               provider: s.provider,
               createdAt: s.createdAt,
               updatedAt: s.updatedAt,
+              expiresAt: s.expiresAt,
+              rotateAfter: s.rotateAfter,
             })),
           };
           // Apply project filtering
@@ -487,13 +863,32 @@ app.get('/sse', async (req, res) => {
           break;
         }
 
+        case 'mcp__meta__secret_audit': {
+          const entries = await secretsManager.queryAccessLog({
+            keyPath: scopedArgs.keyPath as string | undefined,
+            keyPathPrefix: scopedArgs.keyPathPrefix as string | undefined,
+            project: scopedArgs.project as string | undefined,
+            operation: scopedArgs.operation as SecretOperation | undefined,
+            outcome: scopedArgs.outcome as SecretAccessOutcome | undefined,
+            since: scopedArgs.since ? new Date(scopedArgs.since as string) : undefined,
+            until: scopedArgs.until ? new Date(scopedArgs.until as string) : undefined,
+            limit: scopedArgs.limit as number | undefined,
+          });
+          result = {
+            success: true,
+            count: entries.length,
+            entries,
+          };
+          break;
+        }
+
         // ==================== PORTS ====================
         case 'mcp__meta__allocate_port': {
           // Ensure project has a port range
-          let portRange = await portManager.getPortRange(scopedArgs.projectName as string);
-          if (!portRange) {
-            portRange = await portManager.createPortRange(scopedArgs.projectName as string);
-          }
+          await portManager.ensurePortRange(
+            scopedArgs.projectName as string,
+            (scopedArgs.rangeSize as number | undefined) ?? DEFAULT_RANGE_SIZE
+          );
 
           const allocation = await portManager.allocatePort(
             scopedArgs.projectName as string,
@@ -501,6 +896,9 @@ app.get('/sse', async (req, res) => {
             {
               description: scopedArgs.description as string | undefined,
               cloudflareHostname: scopedArgs.cloudflareHostname as string | undefined,
+              idempotencyKey: scopedArgs.idempotencyKey as string | undefined,
+              leaseTtlSeconds: scopedArgs.leaseTtlSeconds as number | undefined,
+              sticky: scopedArgs.sticky as boolean | undefined,
             }
           );
           result = {
@@ -509,6 +907,7 @@ app.get('/sse', async (req, res) => {
             serviceName: allocation.serviceName,
             projectName: scopedArgs.projectName,
             allocatedAt: allocation.allocatedAt,
+            leaseExpiresAt: allocation.leaseExpiresAt ?? null,
           };
           break;
         }
@@ -538,6 +937,29 @@ app.get('/sse', async (req, res) => {
           break;
         }
 
+        case 'mcp__meta__renew_port_lease': {
+          const renewed: { port: number; leaseExpiresAt?: Date }[] = [];
+          const notLeased: number[] = [];
+          for (const port of scopedArgs.ports as number[]) {
+            // Only the project's own leases, unless this is meta
+            const allocation = await portManager.renewLease(port, {
+              ttlSeconds: scopedArgs.ttlSeconds as number | undefined,
+              projectName: projectName === 'meta' ? undefined : projectName,
+            });
+            if (allocation) {
+              renewed.push({ port, leaseExpiresAt: allocation.leaseExpiresAt });
+            } else {
+              notLeased.push(port);
+            }
+          }
+          result = {
+            success: notLeased.length === 0,
+            renewed,
+            notLeased,
+          };
+          break;
+        }
+
         case 'mcp__meta__release_port': {
           const released = await portManager.releasePort(scopedArgs.port as number);
           result = {
@@ -560,6 +982,9 @@ app.get('/sse', async (req, res) => {
               estimatedSeconds: scopedArgs.estimatedSeconds as number | undefined,
               projectName: scopedArgs.projectName as string | undefined,
               complexity: scopedArgs.complexity as 'simple' | 'moderate' | 'complex' | undefined,
+              modelUsed: scopedArgs.modelUsed as string | undefined,
+              parentTaskId: scopedArgs.parentTaskId as string | undefined,
+              parallelExecution: scopedArgs.parallelExecution as boolean | undefined,
             }
           );
           result = {
@@ -570,6 +995,22 @@ app.get('/sse', async (req, res) => {
           break;
         }
 
+        case 'mcp__meta__task_heartbeat': {
+          // Project scoping: non-meta projects can only keep their own tasks alive
+          const alive = await taskTimer.heartbeat(
+            scopedArgs.taskId as string,
+            projectName === 'meta' ? undefined : projectName
+          );
+          result = {
+            success: alive,
+            taskId: scopedArgs.taskId,
+            message: alive
+              ? 'Heartbeat recorded'
+              : 'Task not found or no longer running (completed, failed or abandoned)',
+          };
+          break;
+        }
+
         case 'mcp__meta__complete_task': {
           const task = await taskTimer.completeTask(scopedArgs.taskId as string, {
             filesChanged: scopedArgs.filesChanged as number | undefined,
@@ -596,6 +1037,23 @@ app.get('/sse', async (req, res) => {
           break;
         }
 
+        case 'mcp__meta__estimate_task': {
+          const estimate = await taskEstimator.estimate({
+            taskType: scopedArgs.taskType as string,
+            projectName: scopedArgs.projectName as string | undefined,
+            modelUsed: scopedArgs.modelUsed as string | undefined,
+            complexity: scopedArgs.complexity as TaskComplexity | undefined,
+            filesChanged: scopedArgs.filesChanged as number | undefined,
+            linesChanged: scopedArgs.linesChanged as number | undefined,
+          });
+          result = {
+            success: true,
+            estimate,
+            message: estimate ? undefined : `No completed ${scopedArgs.taskType} tasks to estimate from`,
+          };
+          break;
+        }
+
         default:
           result = {
             success: false,
@@ -616,7 +1074,7 @@ app.get('/sse', async (req, res) => {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(result, null, 2),
+            text: JSON.stringify(redactor.redactToolResult(name, result), null, 2),
           },
         ],
       };
@@ -628,7 +1086,7 @@ app.get('/sse', async (req, res) => {
             text: JSON.stringify(
               {
                 success: false,
-                error: error instanceof Error ? error.message : String(error),
+                error: redactor.redact(error instanceof Error ? error.message : String(error)),
               },
               null,
               2
@@ -640,6 +1098,8 @@ app.get('/sse', async (req, res) => {
     }
   });
 
+  await redactionValuesLoaded;
+
   // Create SSE transport
   const transport = new SSEServerTransport('/message', res);
   await server.connect(transport);
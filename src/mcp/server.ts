@@ -1,42 +1,193 @@
+import fs from 'fs/promises';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
+  CallToolRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { SecretsManager } from '../secrets/SecretsManager.js';
-import { PortManager } from '../ports/PortManager.js';
+import { SecretsKeyring } from '../secrets/SecretsKeyring.js';
+import { SecretsBackend, secretsBackendFromEnv } from '../secrets/SecretsBackend.js';
+import { FileSecretsBackend } from '../secrets/FileSecretsBackend.js';
+import {
+  SecretAccessContext,
+  SecretAccessOutcome,
+  SecretOperation,
+} from '../secrets/SecretAuditLog.js';
+import { DEFAULT_RANGE_SIZE, PortManager } from '../ports/PortManager.js';
+import { PORT_MANIFEST_FORMATS, PortManifestFormat } from '../ports/portManifest.js';
+import { PortReconciler } from '../ports/PortReconciler.js';
+import { ProjectDecommissioner } from '../ports/ProjectDecommissioner.js';
 import { TaskTimer } from '../timing/TaskTimer.js';
-import { AutoSecretDetector } from '../secrets/AutoSecretDetector.js';
+import { TaskEstimator, TaskComplexity } from '../timing/TaskEstimator.js';
+import { renderTaskTree } from '../timing/taskTree.js';
+import { AutoSecretDetector, SecretPattern } from '../secrets/AutoSecretDetector.js';
+import { SecretScanner } from '../secrets/SecretScanner.js';
+import { installConsoleRedaction, redactor } from '../secrets/SecretRedactor.js';
+import { SecretReencryptionJob } from '../secrets/SecretReencryptionJob.js';
+import { ApiKeyCreator } from '../secrets/ApiKeyCreator.js';
+import { SecretRotator } from '../secrets/SecretRotator.js';
+import {
+  SERVICE_ACCOUNT_SECRET_TYPE,
+  ServiceAccountKeyField,
+  serviceAccountKeyField,
+} from '../secrets/serviceAccountKey.js';
 import { PIVOrchestrator } from '../agents/piv/index.js';
 import { InstructionAssembler } from '../instructions/InstructionAssembler.js';
 import { AdaptLocalClaude } from '../instructions/AdaptLocalClaude.js';
-// CloudflareManager and GCloudManager reserved for future use
-// import { CloudflareManager } from '../cloudflare/CloudflareManager.js';
+import { CloudflareManager } from '../cloudflare/CloudflareManager.js';
+// GCloudManager reserved for future use
 // import { GCloudManager } from '../gcloud/GCloudManager.js';
 
+installConsoleRedaction();
+
 // Initialize managers
-const encryptionKey = process.env.ENCRYPTION_KEY || '';
-if (!encryptionKey || encryptionKey.length !== 64) {
-  console.error('ENCRYPTION_KEY must be set and be 64 hex characters (32 bytes)');
+let keyring: SecretsKeyring;
+let secretsBackend: SecretsBackend;
+try {
+  keyring = SecretsKeyring.fromEnv();
+  secretsBackend = secretsBackendFromEnv(keyring);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
   process.exit(1);
 }
 
 // Project scoping - defaults to 'meta' for full access
 const projectName = process.env.PROJECT_NAME || 'meta';
 console.error(`MCP Server initialized for project: ${projectName}`);
+console.error(`Secrets backend: ${secretsBackend.name}`);
+
+const secretsManager = new SecretsManager(keyring, {
+  expiredSecretPolicy: process.env.SECRETS_EXPIRED_POLICY === 'refuse' ? 'refuse' : 'warn',
+  backend: secretsBackend,
+});
+const portManager = new PortManager({
+  reuseCooldownSeconds: process.env.PORT_REUSE_COOLDOWN_MINUTES
+    ? parseFloat(process.env.PORT_REUSE_COOLDOWN_MINUTES) * 60
+    : undefined,
+});
+const portReconciler = new PortReconciler();
+const taskTimer = new TaskTimer({
+  staleAfterSeconds: process.env.TASK_STALE_AFTER_MINUTES
+    ? parseFloat(process.env.TASK_STALE_AFTER_MINUTES) * 60
+    : undefined,
+});
+const taskEstimator = new TaskEstimator();
+const secretDetector = new AutoSecretDetector({
+  autoStoreThreshold: process.env.SECRET_AUTOSTORE_MIN_CONFIDENCE
+    ? parseFloat(process.env.SECRET_AUTOSTORE_MIN_CONFIDENCE)
+    : undefined,
+});
+const secretScanner = new SecretScanner(secretDetector);
+const apiKeyCreator = new ApiKeyCreator(secretsManager, {
+  stripeApiBase: process.env.STRIPE_API_BASE,
+  githubApiBase: process.env.GITHUB_API_BASE,
+});
+const secretRotator = new SecretRotator(secretsManager, apiKeyCreator);
+
+// Rotate keys whose rotate_after has passed and revoke old keys after their grace period
+const rotationIntervalMinutes = parseFloat(process.env.SECRET_ROTATION_INTERVAL_MINUTES ?? '60');
+if (projectName === 'meta' && rotationIntervalMinutes > 0) {
+  secretRotator.startScheduler(rotationIntervalMinutes * 60 * 1000);
+}
+
+// Release leased ports whose holders stopped sending heartbeats
+const leaseSweepIntervalSeconds = parseFloat(process.env.PORT_LEASE_SWEEP_INTERVAL_SECONDS ?? '60');
+if (projectName === 'meta' && leaseSweepIntervalSeconds > 0) {
+  portManager.startLeaseSweeper(leaseSweepIntervalSeconds * 1000);
+}
+
+// Mark running tasks abandoned once their heartbeats stop
+const staleTaskSweepIntervalSeconds = parseFloat(process.env.TASK_STALE_SWEEP_INTERVAL_SECONDS ?? '60');
+if (projectName === 'meta' && staleTaskSweepIntervalSeconds > 0) {
+  taskTimer.startStaleTaskSweeper(staleTaskSweepIntervalSeconds * 1000);
+}
+
+// Release port allocations nothing has listened on for PORT_REAP_AFTER_HOURS (off unless configured)
+const portReconcileIntervalMinutes = parseFloat(process.env.PORT_RECONCILE_INTERVAL_MINUTES ?? '0');
+if (projectName === 'meta' && portReconcileIntervalMinutes > 0) {
+  portReconciler.startScheduler(portReconcileIntervalMinutes * 60 * 1000, {
+    reap: true,
+    reapAfterHours: process.env.PORT_REAP_AFTER_HOURS ? parseFloat(process.env.PORT_REAP_AFTER_HOURS) : undefined,
+  });
+}
 
-const secretsManager = new SecretsManager(encryptionKey);
-const portManager = new PortManager();
-const taskTimer = new TaskTimer();
-const secretDetector = new AutoSecretDetector();
+// Load patterns up front so redaction covers them from the first call,
+// then pick up changes made by other processes (SSE server, psql)
+secretDetector.loadPatterns().catch((error) => {
+  console.error('Failed to load secret detection patterns:', error instanceof Error ? error.message : error);
+});
+secretDetector.watchPatternChanges().catch((error) => {
+  console.error('Secret pattern hot reload unavailable:', error instanceof Error ? error.message : error);
+});
+const reencryptionJob = new SecretReencryptionJob(keyring);
 const instructionAssembler = new InstructionAssembler();
 // PIV orchestrator needs workspace path - will be set per call
-// CloudflareManager and GCloudManager reserved for future use
-// const cloudflareManager = new CloudflareManager();
+const cloudflareManager = new CloudflareManager();
+const projectDecommissioner = new ProjectDecommissioner(portManager, cloudflareManager);
+// GCloudManager reserved for future use
 // const gcloudManager = new GCloudManager();
 
+/**
+ * Check whether the current project scope may access a secret key path
+ *
+ * Non-meta projects can read their own secrets and shared meta/ secrets,
+ * but may only modify secrets under project/{projectName}/.
+ */
+function canAccessKeyPath(keyPath: string, access: 'read' | 'write'): boolean {
+  if (projectName === 'meta') {
+    return true;
+  }
+
+  const allowedPrefixes = access === 'read'
+    ? [`project/${projectName}/`, 'meta/']
+    : [`project/${projectName}/`];
+  return allowedPrefixes.some(prefix => keyPath.startsWith(prefix));
+}
+
+/**
+ * Read a file on the server for a tool that also accepts the content inline
+ *
+ * Only the meta project may name server paths; other projects pass the content.
+ */
+async function readServerFile(filePath: string): Promise<string> {
+  if (projectName !== 'meta') {
+    throw new Error('Access denied: only the meta project can read files on the server; pass the content instead');
+  }
+  return fs.readFile(filePath, 'utf-8');
+}
+
+/**
+ * Build the error response returned when a key path is outside the project scope
+ * (and record the denial in the secret audit log)
+ */
+async function keyPathAccessDenied(
+  access: 'read' | 'write',
+  operation: SecretOperation,
+  keyPath: string,
+  context: SecretAccessContext
+) {
+  await secretsManager.recordAccess(operation, keyPath, 'denied', context);
+
+  const allowed = access === 'read'
+    ? `"project/${projectName}/" or "meta/"`
+    : `"project/${projectName}/"`;
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: `Access denied: Project "${projectName}" can only ${access} secrets with keyPath starting with ${allowed}`,
+        }, null, 2),
+      },
+    ],
+    isError: true,
+  };
+}
+
 // Define MCP tools
 const tools: Tool[] = [
   // ==================== SECRETS ====================
@@ -60,12 +211,21 @@ const tools: Tool[] = [
         },
         secretType: {
           type: 'string',
-          description: 'Type of secret: api_key, token, password, certificate, etc.',
+          description: `Type of secret: api_key, token, password, certificate, etc. ` +
+            `(${SERVICE_ACCOUNT_SECRET_TYPE}: value is a Google service-account JSON key, validated on store)`,
         },
         provider: {
           type: 'string',
           description: 'Provider name: anthropic, openai, cloudflare, gcloud, stripe, etc.',
         },
+        expiresAt: {
+          type: 'string',
+          description: 'Optional: ISO timestamp when this value stops working',
+        },
+        rotateAfter: {
+          type: 'string',
+          description: 'Optional: ISO timestamp after which the value should be rotated',
+        },
       },
       required: ['keyPath', 'value'],
     },
@@ -80,10 +240,67 @@ const tools: Tool[] = [
           type: 'string',
           description: 'Hierarchical key path of the secret to retrieve',
         },
+        version: {
+          type: 'number',
+          description: 'Optional: retrieve a specific historical version instead of the current value',
+        },
+        allowExpired: {
+          type: 'boolean',
+          description: 'Return the value even if it has expired and expired secrets are refused (default: false)',
+        },
+        field: {
+          type: 'string',
+          description: `Optional: for ${SERVICE_ACCOUNT_SECRET_TYPE} secrets, return only this JSON field (e.g., client_email, private_key)`,
+        },
+      },
+      required: ['keyPath'],
+    },
+  },
+  {
+    name: 'mcp__meta__list_expiring_secrets',
+    description: `List secrets accessible to project "${projectName}" that are expired, expire within N days, or are due for rotation`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        withinDays: {
+          type: 'number',
+          description: 'Look-ahead window in days (default: 30)',
+        },
+      },
+    },
+  },
+  {
+    name: 'mcp__meta__list_secret_versions',
+    description: 'List the version history of a secret (metadata only, no values)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyPath: {
+          type: 'string',
+          description: 'Hierarchical key path of the secret',
+        },
       },
       required: ['keyPath'],
     },
   },
+  {
+    name: 'mcp__meta__rollback_secret',
+    description: 'Roll a secret back to a previous version (recorded as a new version)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        keyPath: {
+          type: 'string',
+          description: 'Hierarchical key path of the secret',
+        },
+        version: {
+          type: 'number',
+          description: 'Version number to restore (see mcp__meta__list_secret_versions)',
+        },
+      },
+      required: ['keyPath', 'version'],
+    },
+  },
   {
     name: 'mcp__meta__list_secrets',
     description: `List all secrets accessible to project "${projectName}" (metadata only, no values)`,
@@ -102,242 +319,878 @@ const tools: Tool[] = [
     },
   },
   {
-    name: 'mcp__meta__detect_secrets',
-    description: 'Automatically detect secrets in user messages and store them',
+    name: 'mcp__meta__secret_audit',
+    description: `Query the secret access audit log (who accessed which secret, when, and the outcome)`,
     inputSchema: {
       type: 'object',
       properties: {
-        message: {
+        keyPath: {
           type: 'string',
-          description: 'User message that may contain API keys or secrets',
+          description: 'Optional: exact key path to filter by',
         },
-        question: {
+        keyPathPrefix: {
           type: 'string',
-          description: 'Optional: The question that was asked (helps with context-based detection)',
+          description: 'Optional: key path prefix to filter by (e.g., project/consilio/)',
         },
-        projectName: {
+        project: {
           type: 'string',
-          description: 'Optional: Project name for scoped secret storage',
+          description: 'Optional: caller project scope to filter by (meta only; other projects only see their own entries)',
         },
-        autoStore: {
-          type: 'boolean',
-          description: 'If true, automatically store detected secrets (default: true)',
+        operation: {
+          type: 'string',
+          enum: ['store', 'retrieve', 'list', 'delete', 'update_metadata', 'list_versions', 'retrieve_version', 'rollback', 'export_env', 'move'],
+          description: 'Optional: operation to filter by',
+        },
+        outcome: {
+          type: 'string',
+          enum: ['success', 'not_found', 'denied', 'error'],
+          description: 'Optional: outcome to filter by',
+        },
+        since: {
+          type: 'string',
+          description: 'Optional: ISO timestamp, only entries at or after this time',
+        },
+        until: {
+          type: 'string',
+          description: 'Optional: ISO timestamp, only entries at or before this time',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum entries to return (default: 100)',
         },
       },
-      required: ['message'],
     },
   },
-
-  // ==================== PORTS ====================
   {
-    name: 'mcp__meta__allocate_port',
-    description: 'Allocate next available port for a project service',
+    name: 'mcp__meta__reencrypt_secrets',
+    description: 'Re-encrypt all stored secrets with the active encryption key (resumable, meta only)',
     inputSchema: {
       type: 'object',
       properties: {
-        projectName: {
-          type: 'string',
-          description: 'Project name to allocate port for',
-        },
-        serviceName: {
-          type: 'string',
-          description: 'Service name (e.g., penpot, storybook, api-server)',
+        batchSize: {
+          type: 'number',
+          description: 'Rows re-encrypted per transaction (default: 100)',
         },
-        description: {
-          type: 'string',
-          description: 'Optional description of the service',
+        maxBatches: {
+          type: 'number',
+          description: 'Optional: stop after this many batches; call again to resume',
         },
-        cloudflareHostname: {
-          type: 'string',
-          description: 'Optional Cloudflare hostname (e.g., service.153.se)',
+        statusOnly: {
+          type: 'boolean',
+          description: 'If true, only report the latest job without doing any work',
         },
       },
-      required: ['projectName', 'serviceName'],
     },
   },
   {
-    name: 'mcp__meta__list_ports',
-    description: `List port allocations for project "${projectName}"`,
+    name: 'mcp__meta__import_env',
+    description: 'Import a .env file into project/{projectName}/... secrets (one transaction)',
     inputSchema: {
       type: 'object',
       properties: {
         projectName: {
           type: 'string',
-          description: 'Optional: filter by project name',
+          description: `Project to import into (default: ${projectName})`,
         },
-        includeReleased: {
+        content: {
+          type: 'string',
+          description: '.env file content (provide this or filePath)',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Absolute path of a .env file to read (meta project only; provide this or content)',
+        },
+        prefix: {
+          type: 'string',
+          description: 'Optional: only import variables whose name starts with this (e.g., STRIPE_)',
+        },
+        skipExisting: {
           type: 'boolean',
-          description: 'Include released ports (default: false)',
+          description: 'If true, leave secrets that already exist unchanged',
         },
       },
     },
   },
   {
-    name: 'mcp__meta__get_port_utilization',
-    description: 'Get port utilization statistics for a project',
+    name: 'mcp__meta__export_env',
+    description: 'Render a project\'s secrets as .env content, optionally as a dry-run diff against an existing file',
     inputSchema: {
       type: 'object',
       properties: {
         projectName: {
           type: 'string',
-          description: 'Project name to get utilization for',
+          description: `Project to export (default: ${projectName})`,
+        },
+        prefix: {
+          type: 'string',
+          description: 'Optional: only export variables whose name starts with this (e.g., STRIPE_)',
+        },
+        existingContent: {
+          type: 'string',
+          description: 'Optional: current .env content to diff against',
+        },
+        existingFilePath: {
+          type: 'string',
+          description: 'Optional: absolute path of the current .env file to diff against (meta project only)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'If true, return only variable names and the diff (no values)',
         },
       },
-      required: ['projectName'],
     },
   },
   {
-    name: 'mcp__meta__release_port',
-    description: 'Release a port allocation (mark as released)',
+    name: 'mcp__meta__move_secrets',
+    description: 'Atomically move every secret under one key path prefix to another (e.g., project/old-name/ to project/new-name/), keeping version history',
     inputSchema: {
       type: 'object',
       properties: {
-        port: {
-          type: 'number',
-          description: 'Port number to release',
+        fromPrefix: {
+          type: 'string',
+          description: 'Current key path prefix, ending with "/"',
+        },
+        toPrefix: {
+          type: 'string',
+          description: 'New key path prefix, ending with "/"',
+        },
+        overwrite: {
+          type: 'boolean',
+          description: 'If true, replace secrets that already exist at the target key paths (default: fail)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'If true, only list the key paths that would be moved',
         },
       },
-      required: ['port'],
+      required: ['fromPrefix', 'toPrefix'],
     },
   },
-
-  // ==================== TASKS ====================
   {
-    name: 'mcp__meta__start_task',
-    description: 'Start timing a task execution',
+    name: 'mcp__meta__create_api_key',
+    description: 'Create a provider credential and store it in project/{projectName}/... (Google service-account key, Stripe restricted key or GitHub App installation token)',
     inputSchema: {
       type: 'object',
       properties: {
-        taskId: {
-          type: 'string',
-          description: 'Unique task ID',
-        },
-        taskType: {
+        provider: {
           type: 'string',
-          description: 'Task type (e.g., file_search, epic_creation, code_generation)',
+          enum: ['google', 'gemini', 'stripe', 'github'],
+          description: 'Provider to create the key with',
         },
-        taskDescription: {
+        projectName: {
           type: 'string',
-          description: 'Brief description of the task',
+          description: `Project the key is for (default: ${projectName})`,
         },
-        estimatedSeconds: {
-          type: 'number',
-          description: 'Estimated duration in seconds',
+        permissions: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Resource scopes, e.g. ["charges:read", "customers:write"] (Stripe) or ["contents:read", "pull_requests"] (GitHub); a bare resource means write. Google: IAM roles or "gemini"',
         },
-        projectName: {
+        gcloudProjectId: {
           type: 'string',
-          description: 'Project name this task belongs to',
+          description: 'Google: Cloud project to create the service account in (default: the admin key\'s project)',
         },
-        complexity: {
+        repositories: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'GitHub: repository names to scope the token to (default: all repositories of the installation)',
+        },
+        name: {
           type: 'string',
-          enum: ['simple', 'moderate', 'complex'],
-          description: 'Task complexity level',
+          description: 'Optional: key name shown in the provider dashboard (default: {projectName}-api)',
         },
       },
-      required: ['taskId', 'taskType', 'taskDescription'],
+      required: ['provider'],
     },
   },
   {
-    name: 'mcp__meta__complete_task',
-    description: 'Mark a task as completed',
+    name: 'mcp__meta__rotate_secret',
+    description: 'Rotate a key created by mcp__meta__create_api_key: new key, verification hook, old key revoked after a grace period',
     inputSchema: {
       type: 'object',
       properties: {
-        taskId: {
+        action: {
           type: 'string',
-          description: 'Task ID to complete',
+          enum: ['rotate', 'resume', 'rollback', 'status', 'run_scheduled'],
+          description: 'rotate (default), resume or rollback an unfinished rotation, show status, or run the scheduler once (meta only)',
         },
-        filesChanged: {
-          type: 'number',
-          description: 'Number of files changed',
+        keyPath: {
+          type: 'string',
+          description: 'Key path of the secret (required except for run_scheduled; optional for status)',
         },
-        linesChanged: {
+        gracePeriodHours: {
           type: 'number',
-          description: 'Number of lines changed',
+          description: 'rotate: how long the old key keeps working before it is revoked (default: 24)',
         },
       },
-      required: ['taskId'],
     },
   },
   {
-    name: 'mcp__meta__get_task_stats',
-    description: `Get execution statistics for project "${projectName}"`,
+    name: 'mcp__meta__set_rotation_hook',
+    description: 'Set the command that verifies a freshly rotated key for a project (meta only; gets ROTATED_SECRET_KEY_PATH and ROTATED_SECRET_VALUE; exit 0 = OK)',
     inputSchema: {
       type: 'object',
       properties: {
-        taskType: {
+        projectName: {
           type: 'string',
-          description: 'Optional: filter by task type',
+          description: `Project the hook belongs to (default: ${projectName})`,
         },
-        projectName: {
+        verifyCommand: {
           type: 'string',
-          description: 'Optional: filter by project name',
+          description: 'Shell command to run (meta only); omit to show the current hook',
+        },
+        workingDir: {
+          type: 'string',
+          description: 'Optional: directory to run the command in',
+        },
+        timeoutSeconds: {
+          type: 'number',
+          description: 'Optional: kill the command after this long (default: 60)',
+        },
+        remove: {
+          type: 'boolean',
+          description: 'If true, remove the hook (rotations then skip verification)',
         },
       },
     },
   },
-
-  // ==================== PIV LOOP ====================
   {
-    name: 'mcp__meta__start_piv_loop',
-    description: 'Start the PIV (Plan → Implement → Validate) loop for an epic',
+    name: 'mcp__meta__detect_secrets',
+    description: 'Automatically detect secrets in user messages and store them',
     inputSchema: {
       type: 'object',
       properties: {
-        projectName: {
-          type: 'string',
-          description: 'Project name (e.g., consilio, openhorizon)',
-        },
-        projectPath: {
-          type: 'string',
-          description: 'Absolute path to project workspace',
-        },
-        epicId: {
+        message: {
           type: 'string',
-          description: 'Epic ID (e.g., epic-010)',
+          description: 'User message that may contain API keys or secrets',
         },
-        epicTitle: {
+        question: {
           type: 'string',
-          description: 'Epic title',
+          description: 'Optional: The question that was asked (helps with context-based detection)',
         },
-        epicDescription: {
+        projectName: {
           type: 'string',
-          description: 'Epic description',
-        },
-        acceptanceCriteria: {
-          type: 'array',
-          items: { type: 'string' },
-          description: 'Acceptance criteria for the epic',
+          description: 'Optional: Project name for scoped secret storage',
         },
-        tasks: {
+        conversationHistory: {
           type: 'array',
           items: { type: 'string' },
-          description: 'List of tasks to implement',
+          description: 'Optional: recent messages (improves confidence scoring)',
         },
-        skipPrime: {
+        autoStore: {
           type: 'boolean',
-          description: 'Skip Prime phase if context already exists (default: false)',
+          description: 'If true, automatically store detected secrets that meet minConfidence (default: true)',
+        },
+        minConfidence: {
+          type: 'number',
+          description: 'Optional: confidence (0-1) required to auto-store (default: SECRET_AUTOSTORE_MIN_CONFIDENCE or 0.7)',
         },
       },
-      required: ['projectName', 'projectPath', 'epicId', 'epicTitle', 'tasks'],
+      required: ['message'],
     },
   },
+
   {
-    name: 'mcp__meta__piv_status',
-    description: 'Get status of PIV loop execution',
+    name: 'mcp__meta__scan_project_secrets',
+    description: 'Scan a file or project tree for committed secrets (honours .gitignore; values are masked)',
     inputSchema: {
       type: 'object',
       properties: {
-        epicId: {
+        path: {
           type: 'string',
-          description: 'Epic ID to check status for',
+          description: 'Absolute path of the project directory or file to scan',
+        },
+        maxFindings: {
+          type: 'number',
+          description: 'Stop after this many findings (default: 500)',
+        },
+        maxFileSize: {
+          type: 'number',
+          description: 'Skip files larger than this many bytes (default: 1048576)',
+        },
+        minConfidence: {
+          type: 'number',
+          description: 'Only report findings with at least this confidence, 0-1 (default: 0.5)',
         },
       },
-      required: ['epicId'],
+      required: ['path'],
     },
   },
 
-  // ==================== INSTRUCTION MANAGEMENT ====================
+  {
+    name: 'mcp__meta__list_secret_patterns',
+    description: 'List secret detection patterns',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeDisabled: {
+          type: 'boolean',
+          description: 'Include disabled patterns (default: true)',
+        },
+      },
+    },
+  },
+  {
+    name: 'mcp__meta__add_secret_pattern',
+    description: 'Add a detection pattern for a new provider (validated; detectors reload automatically, meta only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        provider: {
+          type: 'string',
+          description: 'Provider name (lowercase, e.g. slack_bot)',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Regex anchored with ^ and $, e.g. ^xoxb-[0-9A-Za-z-]{50,}$',
+        },
+        secretType: {
+          type: 'string',
+          description: 'Secret type, e.g. api_key, token',
+        },
+        keyPathTemplate: {
+          type: 'string',
+          description: 'Where detected secrets are stored, e.g. meta/slack/bot_token or project/{project}/slack_bot_token',
+        },
+        enabled: {
+          type: 'boolean',
+          description: 'Whether the pattern is active (default: true)',
+        },
+      },
+      required: ['provider', 'pattern', 'secretType', 'keyPathTemplate'],
+    },
+  },
+  {
+    name: 'mcp__meta__update_secret_pattern',
+    description: 'Update an existing detection pattern (meta only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        provider: {
+          type: 'string',
+          description: 'Provider whose pattern to update',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Regex anchored with ^ and $, e.g. ^xoxb-[0-9A-Za-z-]{50,}$',
+        },
+        secretType: {
+          type: 'string',
+          description: 'Secret type, e.g. api_key, token',
+        },
+        keyPathTemplate: {
+          type: 'string',
+          description: 'Where detected secrets are stored, e.g. meta/slack/bot_token or project/{project}/slack_bot_token',
+        },
+      },
+      required: ['provider'],
+    },
+  },
+  {
+    name: 'mcp__meta__set_secret_pattern_enabled',
+    description: 'Enable or disable a detection pattern (meta only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        provider: {
+          type: 'string',
+          description: 'Provider whose pattern to enable or disable',
+        },
+        enabled: {
+          type: 'boolean',
+          description: 'true to enable, false to disable',
+        },
+      },
+      required: ['provider', 'enabled'],
+    },
+  },
+  {
+    name: 'mcp__meta__test_secret_pattern',
+    description: 'Test a candidate string against the detection patterns, or against a draft pattern before saving it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        candidate: {
+          type: 'string',
+          description: 'String to test',
+        },
+        provider: {
+          type: 'string',
+          description: 'Optional: draft pattern provider (test only the draft pattern)',
+        },
+        pattern: {
+          type: 'string',
+          description: 'Regex anchored with ^ and $, e.g. ^xoxb-[0-9A-Za-z-]{50,}$',
+        },
+        secretType: {
+          type: 'string',
+          description: 'Secret type, e.g. api_key, token',
+        },
+        keyPathTemplate: {
+          type: 'string',
+          description: 'Where detected secrets are stored, e.g. meta/slack/bot_token or project/{project}/slack_bot_token',
+        },
+      },
+      required: ['candidate'],
+    },
+  },
+
+  // ==================== PORTS ====================
+  {
+    name: 'mcp__meta__allocate_port',
+    description: 'Allocate next available port for a project service',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: 'Project name to allocate port for',
+        },
+        serviceName: {
+          type: 'string',
+          description: 'Service name (e.g., penpot, storybook, api-server)',
+        },
+        description: {
+          type: 'string',
+          description: 'Optional description of the service',
+        },
+        cloudflareHostname: {
+          type: 'string',
+          description: 'Optional Cloudflare hostname (e.g., service.153.se)',
+        },
+        idempotencyKey: {
+          type: 'string',
+          description: 'Optional: retrying with the same key returns the port the first call allocated',
+        },
+        rangeSize: {
+          type: 'number',
+          description: 'Optional: number of ports to reserve if the project has no range yet (default: 100, max: 1000)',
+        },
+        leaseTtlSeconds: {
+          type: 'number',
+          description: 'Optional: allocate as a lease that is released unless renewed (mcp__meta__renew_port_lease) within this many seconds',
+        },
+        sticky: {
+          type: 'boolean',
+          description: 'If true, get the port this service last held back when it is free',
+        },
+      },
+      required: ['projectName', 'serviceName'],
+    },
+  },
+  {
+    name: 'mcp__meta__list_ports',
+    description: `List port allocations for project "${projectName}"`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: 'Optional: filter by project name',
+        },
+        includeReleased: {
+          type: 'boolean',
+          description: 'Include released ports (default: false)',
+        },
+      },
+    },
+  },
+  {
+    name: 'mcp__meta__get_port_utilization',
+    description: 'Get port utilization statistics for a project',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: 'Project name to get utilization for',
+        },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'mcp__meta__release_port',
+    description: 'Release a port allocation (mark as released)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        port: {
+          type: 'number',
+          description: 'Port number to release',
+        },
+      },
+      required: ['port'],
+    },
+  },
+  {
+    name: 'mcp__meta__port_history',
+    description: 'Everyone who has held a port and when, newest first',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        port: {
+          type: 'number',
+          description: 'Port number',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum entries (default: 50)',
+        },
+      },
+      required: ['port'],
+    },
+  },
+  {
+    name: 'mcp__meta__renew_port_lease',
+    description: 'Heartbeat for leased ports: push their lease expiry out again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ports: {
+          type: 'array',
+          items: { type: 'number' },
+          description: 'Leased ports to renew',
+        },
+        ttlSeconds: {
+          type: 'number',
+          description: 'Optional: new lease length (default: the length it was allocated with)',
+        },
+      },
+      required: ['ports'],
+    },
+  },
+  {
+    name: 'mcp__meta__expand_port_range',
+    description: 'Grow a project port range by another block of ports',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: projectName === 'meta'
+            ? 'Project whose range to grow'
+            : `Ignored: always ${projectName}`,
+        },
+        size: {
+          type: 'number',
+          description: 'Number of ports to add (max: 1000)',
+        },
+      },
+      required: ['size'],
+    },
+  },
+  {
+    name: 'mcp__meta__export_port_manifest',
+    description: 'Render a project\'s active port allocations as a .env snippet (API_SERVER_PORT=3105), a docker-compose ports override file or JSON',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: projectName === 'meta'
+            ? 'Project to export'
+            : `Ignored: always ${projectName}`,
+        },
+        format: {
+          type: 'string',
+          enum: PORT_MANIFEST_FORMATS,
+          description: 'env, compose or json (default: env)',
+        },
+        containerPorts: {
+          type: 'object',
+          description: 'Optional: container port per host port for the compose format (e.g., {"3105": 80}); default is the host port',
+        },
+      },
+    },
+  },
+  {
+    name: 'mcp__meta__import_compose_ports',
+    description: 'Reserve the host ports an existing docker-compose file already publishes',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: projectName === 'meta'
+            ? 'Project to reserve the ports for'
+            : `Ignored: always ${projectName}`,
+        },
+        content: {
+          type: 'string',
+          description: 'docker-compose file content (provide this or filePath)',
+        },
+        filePath: {
+          type: 'string',
+          description: 'Absolute path of a docker-compose file to read (meta project only; provide this or content)',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'If true, only report which ports would be reserved',
+        },
+      },
+    },
+  },
+  {
+    name: 'mcp__meta__decommission_project',
+    description: 'Remove a project from the port system: release its allocations, tear down its Cloudflare tunnel routes, archive its range and free the ports (meta only)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: 'Project to decommission',
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'If true, only report what would be released and removed (including which ports are still live)',
+        },
+        force: {
+          type: 'boolean',
+          description: 'Decommission even if allocated ports are still live (default: refuse)',
+        },
+      },
+      required: ['projectName'],
+    },
+  },
+  {
+    name: 'mcp__meta__reconcile_ports',
+    description: 'Probe allocated ports for liveness, report dead allocations and ports taken without one, optionally release long-dead allocations',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: projectName === 'meta'
+            ? 'Optional: only check this project (default: all projects)'
+            : `Ignored: always ${projectName}`,
+        },
+        reap: {
+          type: 'boolean',
+          description: 'Release allocations dead for longer than reapAfterHours (default: false, report only)',
+        },
+        reapAfterHours: {
+          type: 'number',
+          description: 'How long an allocation must have had nothing listening before it is reaped (default: 24)',
+        },
+      },
+    },
+  },
+
+  // ==================== TASKS ====================
+  {
+    name: 'mcp__meta__start_task',
+    description: 'Start timing a task execution',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'Unique task ID',
+        },
+        taskType: {
+          type: 'string',
+          description: 'Task type (e.g., file_search, epic_creation, code_generation)',
+        },
+        taskDescription: {
+          type: 'string',
+          description: 'Brief description of the task',
+        },
+        estimatedSeconds: {
+          type: 'number',
+          description: 'Estimated duration in seconds',
+        },
+        projectName: {
+          type: 'string',
+          description: 'Project name this task belongs to',
+        },
+        complexity: {
+          type: 'string',
+          enum: ['simple', 'moderate', 'complex'],
+          description: 'Task complexity level',
+        },
+        modelUsed: {
+          type: 'string',
+          description: 'Model running the task (e.g., sonnet, haiku)',
+        },
+        parentTaskId: {
+          type: 'string',
+          description: 'Task ID this is a subtask of',
+        },
+        parallelExecution: {
+          type: 'boolean',
+          description: 'Runs alongside its parallel sibling subtasks (default: false)',
+        },
+      },
+      required: ['taskId', 'taskType', 'taskDescription'],
+    },
+  },
+  {
+    name: 'mcp__meta__task_heartbeat',
+    description: 'Signal that a running task is still alive (once a task has sent one, going TASK_STALE_AFTER_MINUTES without another marks it abandoned)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'Task ID to keep alive',
+        },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'mcp__meta__complete_task',
+    description: 'Mark a task as completed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskId: {
+          type: 'string',
+          description: 'Task ID to complete',
+        },
+        filesChanged: {
+          type: 'number',
+          description: 'Number of files changed',
+        },
+        linesChanged: {
+          type: 'number',
+          description: 'Number of lines changed',
+        },
+      },
+      required: ['taskId'],
+    },
+  },
+  {
+    name: 'mcp__meta__get_task_stats',
+    description: `Get execution statistics for project "${projectName}"`,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskType: {
+          type: 'string',
+          description: 'Optional: filter by task type',
+        },
+        projectName: {
+          type: 'string',
+          description: 'Optional: filter by project name',
+        },
+      },
+    },
+  },
+
+  {
+    name: 'mcp__meta__estimate_task',
+    description: 'Estimate task duration (p50/p90) from similar completed tasks, with a confidence score',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        taskType: {
+          type: 'string',
+          description: 'Task type (e.g., file_search, epic_creation, code_generation)',
+        },
+        projectName: {
+          type: 'string',
+          description: 'Project the task belongs to (favours its history)',
+        },
+        modelUsed: {
+          type: 'string',
+          description: 'Model that will run the task (e.g., sonnet, haiku)',
+        },
+        complexity: {
+          type: 'string',
+          enum: ['simple', 'moderate', 'complex'],
+          description: 'Task complexity level',
+        },
+        filesChanged: {
+          type: 'number',
+          description: 'Expected number of files changed',
+        },
+        linesChanged: {
+          type: 'number',
+          description: 'Expected number of lines changed',
+        },
+      },
+      required: ['taskType'],
+    },
+  },
+
+  {
+    name: 'mcp__meta__get_task_tree',
+    description: 'Show a task and its subtasks as a tree, with wall-clock vs summed time, the critical path and what parallelism saved',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        rootTaskId: {
+          type: 'string',
+          description: 'Task ID at the top of the tree',
+        },
+      },
+      required: ['rootTaskId'],
+    },
+  },
+
+  // ==================== PIV LOOP ====================
+  {
+    name: 'mcp__meta__start_piv_loop',
+    description: 'Start the PIV (Plan → Implement → Validate) loop for an epic',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        projectName: {
+          type: 'string',
+          description: 'Project name (e.g., consilio, openhorizon)',
+        },
+        projectPath: {
+          type: 'string',
+          description: 'Absolute path to project workspace',
+        },
+        epicId: {
+          type: 'string',
+          description: 'Epic ID (e.g., epic-010)',
+        },
+        epicTitle: {
+          type: 'string',
+          description: 'Epic title',
+        },
+        epicDescription: {
+          type: 'string',
+          description: 'Epic description',
+        },
+        acceptanceCriteria: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Acceptance criteria for the epic',
+        },
+        tasks: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'List of tasks to implement',
+        },
+        skipPrime: {
+          type: 'boolean',
+          description: 'Skip Prime phase if context already exists (default: false)',
+        },
+      },
+      required: ['projectName', 'projectPath', 'epicId', 'epicTitle', 'tasks'],
+    },
+  },
+  {
+    name: 'mcp__meta__piv_status',
+    description: 'Get status of PIV loop execution',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        epicId: {
+          type: 'string',
+          description: 'Epic ID to check status for',
+        },
+      },
+      required: ['epicId'],
+    },
+  },
+
+  // ==================== INSTRUCTION MANAGEMENT ====================
   {
     name: 'mcp__meta__propagate_instructions',
     description: 'Update all supervisor instructions (meta + all projects) by regenerating CLAUDE.md files from core instruction layers',
@@ -376,215 +1229,857 @@ const tools: Tool[] = [
   },
 ];
 
-// Create MCP server
-const server = new Server(
-  {
-    name: 'supervisor-service',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+// Create MCP server
+const server = new Server(
+  {
+    name: 'supervisor-service',
+    version: '1.0.0',
+  },
+  {
+    capabilities: {
+      tools: {},
+    },
+  }
+);
+
+// Register tool handlers
+server.setRequestHandler(ListToolsRequestSchema, async () => ({
+  tools,
+}));
+
+// Every result is redacted except from tools that exist to return secrets
+server.setRequestHandler(CallToolRequestSchema, async (request) =>
+  redactor.redactToolResult(request.params.name, await callTool(request))
+);
+
+async function callTool(request: CallToolRequest) {
+  const { name, arguments: args = {} } = request.params;
+  const accessContext: SecretAccessContext = { project: projectName, transport: 'stdio', toolName: name };
+
+  try {
+    switch (name) {
+      // ==================== SECRETS ====================
+      case 'mcp__meta__store_secret': {
+        const storeOptions = {
+          description: args.description as string | undefined,
+          secretType: args.secretType as string | undefined,
+          provider: args.provider as string | undefined,
+          expiresAt: args.expiresAt ? new Date(args.expiresAt as string) : undefined,
+          rotateAfter: args.rotateAfter ? new Date(args.rotateAfter as string) : undefined,
+        };
+        const secret = storeOptions.secretType === SERVICE_ACCOUNT_SECRET_TYPE
+          ? await secretsManager.storeServiceAccountKey(
+              args.keyPath as string,
+              args.value as string,
+              storeOptions,
+              accessContext
+            )
+          : await secretsManager.store(
+              args.keyPath as string,
+              args.value as string,
+              storeOptions,
+              accessContext
+            );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                keyPath: secret.keyPath,
+                version: secret.currentVersion,
+                createdAt: secret.createdAt,
+                message: 'Secret stored successfully',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__retrieve_secret': {
+        const keyPath = args.keyPath as string;
+        const version = args.version as number | undefined;
+
+        // Project scoping: Only allow access to project's secrets and meta secrets
+        if (!canAccessKeyPath(keyPath, 'read')) {
+          return keyPathAccessDenied('read', version !== undefined ? 'retrieve_version' : 'retrieve', keyPath, accessContext);
+        }
+
+        const status = version === undefined
+          ? await secretsManager.retrieveWithStatus(keyPath, accessContext, {
+              allowExpired: args.allowExpired as boolean | undefined,
+            })
+          : null;
+        const storedValue = version !== undefined
+          ? await secretsManager.retrieveVersion(keyPath, version, accessContext)
+          : status?.value ?? null;
+        const value = storedValue !== null && args.field
+          ? serviceAccountKeyField(storedValue, args.field as ServiceAccountKeyField)
+          : storedValue;
+        if (value === null) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: version !== undefined
+                    ? `Secret version not found: ${keyPath} (version ${version})`
+                    : `Secret not found: ${keyPath}`,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                keyPath: keyPath,
+                version,
+                value,
+                expiresAt: status?.expiresAt,
+                rotateAfter: status?.rotateAfter,
+                warning: status?.warning,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__list_expiring_secrets': {
+        const withinDays = (args.withinDays as number | undefined) ?? 30;
+        let secrets = await secretsManager.listExpiring(withinDays, accessContext);
+
+        // Project scoping: Filter secrets by keyPath prefix
+        if (projectName !== 'meta') {
+          secrets = secrets.filter(s => canAccessKeyPath(s.keyPath, 'read'));
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                withinDays,
+                count: secrets.length,
+                expiredCount: secrets.filter(s => s.expired).length,
+                projectScope: projectName,
+                secrets: secrets.map((s) => ({
+                  keyPath: s.keyPath,
+                  provider: s.provider,
+                  expiresAt: s.expiresAt,
+                  rotateAfter: s.rotateAfter,
+                  expired: s.expired,
+                  rotationDue: s.rotationDue,
+                  daysUntilExpiry: s.daysUntilExpiry,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__list_secret_versions': {
+        const keyPath = args.keyPath as string;
+
+        if (!canAccessKeyPath(keyPath, 'read')) {
+          return keyPathAccessDenied('read', 'list_versions', keyPath, accessContext);
+        }
+
+        const versions = await secretsManager.listVersions(keyPath, accessContext);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: versions.length > 0,
+                keyPath,
+                count: versions.length,
+                versions,
+                error: versions.length === 0 ? `Secret not found: ${keyPath}` : undefined,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__rollback_secret': {
+        const keyPath = args.keyPath as string;
+        const version = args.version as number;
+
+        if (!canAccessKeyPath(keyPath, 'write')) {
+          return keyPathAccessDenied('write', 'rollback', keyPath, accessContext);
+        }
+
+        const secret = await secretsManager.rollback(keyPath, version, {
+          createdBy: projectName,
+        }, accessContext);
+        if (!secret) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: `Secret version not found: ${keyPath} (version ${version})`,
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                keyPath: secret.keyPath,
+                restoredVersion: version,
+                currentVersion: secret.currentVersion,
+                message: `Rolled back ${secret.keyPath} to version ${version} (now version ${secret.currentVersion})`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__list_secrets': {
+        let secrets = await secretsManager.list({
+          provider: args.provider as string | undefined,
+          secretType: args.secretType as string | undefined,
+        }, accessContext);
+
+        // Project scoping: Filter secrets by keyPath prefix
+        if (projectName !== 'meta') {
+          secrets = secrets.filter(s =>
+            s.keyPath.startsWith(`project/${projectName}/`) ||
+            s.keyPath.startsWith('meta/')
+          );
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: secrets.length,
+                projectScope: projectName,
+                secrets: secrets.map((s) => ({
+                  keyPath: s.keyPath,
+                  description: s.description,
+                  secretType: s.secretType,
+                  provider: s.provider,
+                  metadata: s.metadata,
+                  createdAt: s.createdAt,
+                  updatedAt: s.updatedAt,
+                  expiresAt: s.expiresAt,
+                  rotateAfter: s.rotateAfter,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__secret_audit': {
+        // Project scoping: non-meta projects only see their own accesses
+        const entries = await secretsManager.queryAccessLog({
+          keyPath: args.keyPath as string | undefined,
+          keyPathPrefix: args.keyPathPrefix as string | undefined,
+          project: projectName === 'meta' ? (args.project as string | undefined) : projectName,
+          operation: args.operation as SecretOperation | undefined,
+          outcome: args.outcome as SecretAccessOutcome | undefined,
+          since: args.since ? new Date(args.since as string) : undefined,
+          until: args.until ? new Date(args.until as string) : undefined,
+          limit: args.limit as number | undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: entries.length,
+                projectScope: projectName,
+                entries,
+              }, null, 2),
+            },
+          ],
+        };
+      }
 
-// Register tool handlers
-server.setRequestHandler(ListToolsRequestSchema, async () => ({
-  tools,
-}));
+      case 'mcp__meta__reencrypt_secrets': {
+        if (projectName !== 'meta') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: 'Access denied: only the meta project can re-encrypt secrets',
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args = {} } = request.params;
+        // The file vault is small enough to rewrite in one go
+        if (secretsBackend instanceof FileSecretsBackend) {
+          const reencrypted = args.statusOnly ? 0 : await secretsBackend.reencryptAll();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  backend: secretsBackend.name,
+                  activeKeyId: keyring.activeKeyId,
+                  keyIds: keyring.keyIds,
+                  reencrypted,
+                  message: args.statusOnly
+                    ? 'The file vault re-encrypts values on every write; call without statusOnly to rewrite it now'
+                    : `Re-encrypted ${reencrypted} values in ${secretsBackend.getVaultPath()} with key ${keyring.activeKeyId}`,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const progress = args.statusOnly
+          ? await reencryptionJob.getLatestJob()
+          : await reencryptionJob.run({
+              batchSize: args.batchSize as number | undefined,
+              maxBatches: args.maxBatches as number | undefined,
+            });
 
-  try {
-    switch (name) {
-      // ==================== SECRETS ====================
-      case 'mcp__meta__store_secret': {
-        const secret = await secretsManager.store(
-          args.keyPath as string,
-          args.value as string,
-          {
-            description: args.description as string | undefined,
-            secretType: args.secretType as string | undefined,
-            provider: args.provider as string | undefined,
-          }
-        );
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                keyPath: secret.keyPath,
-                createdAt: secret.createdAt,
-                message: 'Secret stored successfully',
+                activeKeyId: keyring.activeKeyId,
+                keyIds: keyring.keyIds,
+                job: progress,
+                message: !progress
+                  ? 'No re-encryption jobs have run yet'
+                  : progress.status === 'completed'
+                    ? `All secrets re-encrypted with key ${progress.targetKeyId}`
+                    : `Job ${progress.jobId} paused in phase ${progress.phase}; call again to resume`,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'mcp__meta__retrieve_secret': {
-        const keyPath = args.keyPath as string;
+      case 'mcp__meta__import_env': {
+        const targetProject = (args.projectName as string | undefined) || projectName;
 
-        // Project scoping: Only allow access to project's secrets and meta secrets
-        if (projectName !== 'meta') {
-          const allowedPrefixes = [`project/${projectName}/`, 'meta/'];
-          const isAllowed = allowedPrefixes.some(prefix => keyPath.startsWith(prefix));
+        // Project scoping: non-meta projects can only import into their own project
+        if (!canAccessKeyPath(`project/${targetProject}/`, 'write')) {
+          return keyPathAccessDenied('write', 'store', `project/${targetProject}/`, accessContext);
+        }
+
+        const content = args.filePath
+          ? await readServerFile(args.filePath as string)
+          : args.content as string | undefined;
+        if (content === undefined) {
+          throw new Error('Either content or filePath is required');
+        }
+
+        const result = await secretsManager.importEnv(targetProject, content, {
+          prefix: args.prefix as string | undefined,
+          skipExisting: args.skipExisting as boolean | undefined,
+          createdBy: projectName,
+        }, accessContext);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                projectName: targetProject,
+                imported: result.imported.map((s) => s.keyPath),
+                skipped: result.skipped,
+                message: `Imported ${result.imported.length} secrets into project/${targetProject}/`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__export_env': {
+        const targetProject = (args.projectName as string | undefined) || projectName;
+
+        // Project scoping: non-meta projects can only export their own project
+        if (!canAccessKeyPath(`project/${targetProject}/`, 'write')) {
+          return keyPathAccessDenied('write', 'export_env', `project/${targetProject}/`, accessContext);
+        }
+
+        const existingContent = args.existingFilePath
+          ? await readServerFile(args.existingFilePath as string)
+          : args.existingContent as string | undefined;
+
+        const result = await secretsManager.exportEnv(targetProject, {
+          prefix: args.prefix as string | undefined,
+          existingContent,
+          dryRun: args.dryRun as boolean | undefined,
+        }, accessContext);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                projectName: targetProject,
+                dryRun: !!args.dryRun,
+                count: result.variables.length,
+                variables: result.variables,
+                diff: result.diff,
+                content: result.content,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__move_secrets': {
+        const fromPrefix = args.fromPrefix as string;
+        const toPrefix = args.toPrefix as string;
+
+        if (!canAccessKeyPath(fromPrefix, 'write')) {
+          return keyPathAccessDenied('write', 'move', fromPrefix, accessContext);
+        }
+        if (!canAccessKeyPath(toPrefix, 'write')) {
+          return keyPathAccessDenied('write', 'move', toPrefix, accessContext);
+        }
+
+        const moves = await secretsManager.move(fromPrefix, toPrefix, {
+          overwrite: args.overwrite as boolean | undefined,
+          dryRun: args.dryRun as boolean | undefined,
+        }, accessContext);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                dryRun: !!args.dryRun,
+                count: moves.length,
+                moves,
+                message: args.dryRun
+                  ? `Would move ${moves.length} secrets from ${fromPrefix} to ${toPrefix}`
+                  : `Moved ${moves.length} secrets from ${fromPrefix} to ${toPrefix}`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__create_api_key': {
+        const targetProject = (args.projectName as string | undefined) || projectName;
+
+        // Project scoping: non-meta projects can only create keys for themselves
+        if (!canAccessKeyPath(`project/${targetProject}/`, 'write')) {
+          return keyPathAccessDenied('write', 'store', `project/${targetProject}/`, accessContext);
+        }
+
+        const created = await apiKeyCreator.createApiKey({
+          provider: args.provider as 'google' | 'gemini' | 'stripe' | 'github',
+          projectName: targetProject,
+          permissions: args.permissions as string[] | undefined,
+          name: args.name as string | undefined,
+          repositories: args.repositories as string[] | undefined,
+          gcloudProjectId: args.gcloudProjectId as string | undefined,
+        }, accessContext);
+
+        // The key itself stays in the secrets store; retrieve it by key path
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                provider: args.provider,
+                keyId: created.keyId,
+                keyPath: created.keyPath,
+                serviceAccountEmail: created.serviceAccountEmail,
+                expiresAt: created.expiresAt,
+                metadata: created.metadata,
+                message: `Created ${args.provider} key and stored it at ${created.keyPath}`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__rotate_secret': {
+        const action = (args.action as string | undefined) ?? 'rotate';
+        const keyPath = args.keyPath as string | undefined;
 
-          if (!isAllowed) {
+        if (action === 'run_scheduled') {
+          if (projectName !== 'meta') {
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
                     success: false,
-                    error: `Access denied: Project "${projectName}" can only access secrets with keyPath starting with "project/${projectName}/" or "meta/"`,
+                    error: 'Access denied: only the meta project can run scheduled rotations',
                   }, null, 2),
                 },
               ],
               isError: true,
             };
           }
+          const report = await secretRotator.runScheduled(accessContext);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ success: report.failed.length === 0, ...report }, null, 2),
+              },
+            ],
+          };
         }
 
-        const value = await secretsManager.retrieve(keyPath);
-        if (value === null) {
+        if (action === 'status' && !keyPath) {
+          // Project scoping: non-meta projects only see their own rotations
+          const rotations = (await secretRotator.listRotations()).filter((rotation) =>
+            canAccessKeyPath(rotation.keyPath, 'read')
+          );
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ success: true, rotations }, null, 2),
+              },
+            ],
+          };
+        }
+
+        if (!keyPath) {
+          throw new Error(`keyPath is required for ${action}`);
+        }
+        if (!canAccessKeyPath(keyPath, 'write')) {
+          return keyPathAccessDenied('write', 'store', keyPath, accessContext);
+        }
+
+        let rotation;
+        switch (action) {
+          case 'rotate':
+            rotation = await secretRotator.rotate(keyPath, {
+              gracePeriodHours: args.gracePeriodHours as number | undefined,
+            }, accessContext);
+            break;
+          case 'resume':
+            rotation = await secretRotator.resume(keyPath, accessContext);
+            break;
+          case 'rollback':
+            rotation = await secretRotator.rollback(keyPath, accessContext);
+            break;
+          case 'status':
+            rotation = (await secretRotator.listRotations(keyPath, 1))[0] ?? null;
+            break;
+          default:
+            throw new Error(`Unknown action: ${action}`);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ success: true, rotation }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__set_rotation_hook': {
+        const targetProject = (args.projectName as string | undefined) || projectName;
+
+        // Project scoping: hooks run in the meta process, so only meta may set or remove them;
+        // other projects can only see their own
+        const changesHook = Boolean(args.remove || args.verifyCommand);
+        if (projectName !== 'meta' && (changesHook || targetProject !== projectName)) {
           return {
             content: [
               {
                 type: 'text',
                 text: JSON.stringify({
                   success: false,
-                  error: `Secret not found: ${keyPath}`,
+                  error: changesHook
+                    ? 'Access denied: only the meta project can set or remove rotation hooks'
+                    : `Access denied: project ${projectName} cannot view hooks of ${targetProject}`,
                 }, null, 2),
               },
             ],
+            isError: true,
           };
         }
+
+        let hook;
+        if (args.remove) {
+          const removed = await secretRotator.removeHook(targetProject);
+          hook = null;
+          if (!removed) {
+            throw new Error(`Project ${targetProject} has no rotation hook`);
+          }
+        } else if (args.verifyCommand) {
+          hook = await secretRotator.setHook(targetProject, args.verifyCommand as string, {
+            workingDir: args.workingDir as string | undefined,
+            timeoutSeconds: args.timeoutSeconds as number | undefined,
+          });
+        } else {
+          hook = await secretRotator.getHook(targetProject);
+        }
+
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify({
-                success: true,
-                keyPath: keyPath,
-                value,
-              }, null, 2),
+              text: JSON.stringify({ success: true, projectName: targetProject, hook }, null, 2),
             },
           ],
         };
       }
 
-      case 'mcp__meta__list_secrets': {
-        let secrets = await secretsManager.list({
-          provider: args.provider as string | undefined,
-          secretType: args.secretType as string | undefined,
+      case 'mcp__meta__detect_secrets': {
+        const message = args.message as string;
+        const question = args.question as string | undefined;
+        const contextProjectName = args.projectName as string | undefined || projectName;
+        const autoStore = args.autoStore !== false; // Default to true
+
+        // Detect secret in message
+        const detection = await secretDetector.detectSecret(message, {
+          question,
+          projectName: contextProjectName,
+          conversationHistory: args.conversationHistory as string[] | undefined,
         });
 
-        // Project scoping: Filter secrets by keyPath prefix
-        if (projectName !== 'meta') {
-          secrets = secrets.filter(s =>
-            s.keyPath.startsWith(`project/${projectName}/`) ||
-            s.keyPath.startsWith('meta/')
+        if (!detection) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  detected: false,
+                  message: 'No secret detected in message',
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        // If autoStore is enabled, store the detected secret when confident enough
+        const minConfidence = (args.minConfidence as number | undefined) ?? secretDetector.getAutoStoreThreshold();
+        if (autoStore && secretDetector.shouldAutoStore(detection, minConfidence)) {
+          await secretsManager.store(
+            detection.keyPath,
+            detection.value,
+            {
+              description: detection.description,
+              secretType: detection.secretType,
+              provider: detection.provider,
+            },
+            accessContext
           );
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  detected: true,
+                  stored: true,
+                  provider: detection.provider,
+                  keyPath: detection.keyPath,
+                  description: detection.description,
+                  secretType: detection.secretType,
+                  confidence: detection.confidence,
+                  message: `Detected and stored ${detection.description}`,
+                }, null, 2),
+              },
+            ],
+          };
         }
 
+        // Not stored (autoStore off or below threshold): return detection info without the value
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                detected: true,
+                stored: false,
+                provider: detection.provider,
+                keyPath: detection.keyPath,
+                description: detection.description,
+                secretType: detection.secretType,
+                confidence: detection.confidence,
+                reasons: detection.reasons,
+                message: autoStore
+                  ? `Detected ${detection.description} (not stored: confidence ${detection.confidence} is below ${minConfidence})`
+                  : `Detected ${detection.description} (not stored)`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__scan_project_secrets': {
+        const report = await secretScanner.scan(args.path as string, {
+          maxFindings: args.maxFindings as number | undefined,
+          maxFileSize: args.maxFileSize as number | undefined,
+          minConfidence: args.minConfidence as number | undefined,
+          context: { projectName: projectName === 'meta' ? undefined : projectName },
+        });
+
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                count: secrets.length,
-                projectScope: projectName,
-                secrets: secrets.map((s) => ({
-                  keyPath: s.keyPath,
-                  description: s.description,
-                  secretType: s.secretType,
-                  provider: s.provider,
-                  createdAt: s.createdAt,
-                  updatedAt: s.updatedAt,
-                })),
+                clean: report.findings.length === 0,
+                ...report,
+                message: report.findings.length === 0
+                  ? `No secrets found in ${report.filesScanned} files`
+                  : `Found ${report.findings.length}${report.truncated ? '+' : ''} possible secrets in ${report.root}`,
               }, null, 2),
             },
           ],
         };
       }
 
-      case 'mcp__meta__detect_secrets': {
-        const message = args.message as string;
-        const question = args.question as string | undefined;
-        const contextProjectName = args.projectName as string | undefined || projectName;
-        const autoStore = args.autoStore !== false; // Default to true
-
-        // Detect secret in message
-        const detection = await secretDetector.detectSecret(message, {
-          question,
-          projectName: contextProjectName,
-        });
+      case 'mcp__meta__list_secret_patterns': {
+        const patterns = await secretDetector.listPatterns(args.includeDisabled !== false);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                count: patterns.length,
+                patterns,
+              }, null, 2),
+            },
+          ],
+        };
+      }
 
-        if (!detection) {
+      case 'mcp__meta__add_secret_pattern':
+      case 'mcp__meta__update_secret_pattern':
+      case 'mcp__meta__set_secret_pattern_enabled': {
+        if (projectName !== 'meta') {
           return {
             content: [
               {
                 type: 'text',
                 text: JSON.stringify({
-                  success: true,
-                  detected: false,
-                  message: 'No secret detected in message',
+                  success: false,
+                  error: 'Access denied: only the meta project can change secret detection patterns',
                 }, null, 2),
               },
             ],
+            isError: true,
           };
         }
 
-        // If autoStore is enabled, store the detected secret
-        if (autoStore) {
-          await secretsManager.store(
-            detection.keyPath,
-            detection.value,
-            {
-              description: detection.description,
-              secretType: detection.secretType,
-              provider: detection.provider,
-            }
-          );
+        const provider = args.provider as string;
+        let pattern: SecretPattern | null;
+        if (name === 'mcp__meta__add_secret_pattern') {
+          pattern = await secretDetector.addPattern({
+            provider,
+            pattern: args.pattern as string,
+            secretType: args.secretType as string,
+            keyPathTemplate: args.keyPathTemplate as string,
+            enabled: args.enabled as boolean | undefined,
+          });
+        } else if (name === 'mcp__meta__update_secret_pattern') {
+          pattern = await secretDetector.updatePattern(provider, {
+            pattern: args.pattern as string | undefined,
+            secretType: args.secretType as string | undefined,
+            keyPathTemplate: args.keyPathTemplate as string | undefined,
+          });
+        } else {
+          pattern = await secretDetector.setPatternEnabled(provider, args.enabled as boolean);
+        }
 
+        if (!pattern) {
           return {
             content: [
               {
                 type: 'text',
                 text: JSON.stringify({
-                  success: true,
-                  detected: true,
-                  stored: true,
-                  provider: detection.provider,
-                  keyPath: detection.keyPath,
-                  description: detection.description,
-                  secretType: detection.secretType,
-                  message: `Detected and stored ${detection.description}`,
+                  success: false,
+                  error: `No detection pattern for provider: ${provider}`,
                 }, null, 2),
               },
             ],
+            isError: true,
           };
         }
 
-        // If autoStore is false, just return detection info (don't show the actual value)
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify({
                 success: true,
-                detected: true,
-                stored: false,
-                provider: detection.provider,
-                keyPath: detection.keyPath,
-                description: detection.description,
-                secretType: detection.secretType,
-                message: `Detected ${detection.description} (not stored)`,
+                pattern,
+                message: `Saved pattern for ${provider}`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__test_secret_pattern': {
+        const draft = args.pattern
+          ? {
+              provider: (args.provider as string | undefined) ?? 'draft',
+              pattern: args.pattern as string,
+              secretType: (args.secretType as string | undefined) ?? 'api_key',
+              keyPathTemplate: (args.keyPathTemplate as string | undefined) ?? 'meta/draft/api_key',
+            }
+          : undefined;
+
+        const result = await secretDetector.testPatterns(args.candidate as string, {
+          pattern: draft,
+          context: { projectName: projectName === 'meta' ? undefined : projectName },
+        });
+
+        // Never echo the candidate value back
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                matched: result.matches.length > 0,
+                matches: result.matches,
+                detection: result.detection && {
+                  provider: result.detection.provider,
+                  keyPath: result.detection.keyPath,
+                  secretType: result.detection.secretType,
+                  confidence: result.detection.confidence,
+                  reasons: result.detection.reasons,
+                },
               }, null, 2),
             },
           ],
@@ -594,10 +2089,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       // ==================== PORTS ====================
       case 'mcp__meta__allocate_port': {
         // Ensure project has a port range
-        let portRange = await portManager.getPortRange(args.projectName as string);
-        if (!portRange) {
-          portRange = await portManager.createPortRange(args.projectName as string);
-        }
+        await portManager.ensurePortRange(
+          args.projectName as string,
+          (args.rangeSize as number | undefined) ?? DEFAULT_RANGE_SIZE
+        );
 
         const allocation = await portManager.allocatePort(
           args.projectName as string,
@@ -605,6 +2100,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           {
             description: args.description as string | undefined,
             cloudflareHostname: args.cloudflareHostname as string | undefined,
+            idempotencyKey: args.idempotencyKey as string | undefined,
+            leaseTtlSeconds: args.leaseTtlSeconds as number | undefined,
+            sticky: args.sticky as boolean | undefined,
           }
         );
         return {
@@ -617,6 +2115,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 serviceName: allocation.serviceName,
                 projectName: args.projectName,
                 allocatedAt: allocation.allocatedAt,
+                leaseExpiresAt: allocation.leaseExpiresAt ?? null,
               }, null, 2),
             },
           ],
@@ -681,6 +2180,208 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'mcp__meta__port_history': {
+        // Project scoping: non-meta projects only see their own tenancy of the port
+        const history = await portManager.getPortHistory(args.port as number, {
+          projectName: projectName === 'meta' ? undefined : projectName,
+          limit: args.limit as number | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                port: args.port,
+                count: history.length,
+                history,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__renew_port_lease': {
+        const renewed: { port: number; leaseExpiresAt?: Date }[] = [];
+        const notLeased: number[] = [];
+        for (const port of args.ports as number[]) {
+          // Project scoping: non-meta projects can only renew their own leases
+          const allocation = await portManager.renewLease(port, {
+            ttlSeconds: args.ttlSeconds as number | undefined,
+            projectName: projectName === 'meta' ? undefined : projectName,
+          });
+          if (allocation) {
+            renewed.push({ port, leaseExpiresAt: allocation.leaseExpiresAt });
+          } else {
+            notLeased.push(port);
+          }
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: notLeased.length === 0,
+                renewed,
+                notLeased,
+                message: notLeased.length === 0
+                  ? `Renewed ${renewed.length} lease(s)`
+                  : `No active lease on port(s) ${notLeased.join(', ')} (released, not leased or another project's)`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__expand_port_range': {
+        // Project scoping: non-meta projects can only grow their own range
+        const targetProject = projectName === 'meta' ? (args.projectName as string | undefined) : projectName;
+        if (!targetProject) {
+          throw new Error('projectName is required');
+        }
+
+        const portRange = await portManager.expandPortRange(targetProject, args.size as number);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                projectName: targetProject,
+                totalPorts: portRange.totalPorts,
+                blocks: portRange.blocks,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__export_port_manifest': {
+        // Project scoping: non-meta projects can only export their own ports
+        const targetProject = projectName === 'meta' ? (args.projectName as string | undefined) : projectName;
+        if (!targetProject) {
+          throw new Error('projectName is required');
+        }
+
+        const format = (args.format as PortManifestFormat | undefined) ?? 'env';
+        const manifest = await portManager.exportManifest(
+          targetProject,
+          format,
+          args.containerPorts as Record<number, number> | undefined
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                projectName: targetProject,
+                format,
+                content: manifest,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__import_compose_ports': {
+        // Project scoping: non-meta projects can only reserve their own ports
+        const targetProject = projectName === 'meta' ? (args.projectName as string | undefined) : projectName;
+        if (!targetProject) {
+          throw new Error('projectName is required');
+        }
+
+        const content = args.filePath
+          ? await readServerFile(args.filePath as string)
+          : args.content as string | undefined;
+        if (content === undefined) {
+          throw new Error('Either content or filePath is required');
+        }
+
+        const result = await portManager.importComposePorts(targetProject, content, {
+          dryRun: args.dryRun as boolean | undefined,
+          allocatedBy: projectName,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: result.conflicts.length + result.coolingDown.length + result.outsideRange.length === 0,
+                projectName: targetProject,
+                dryRun: !!args.dryRun,
+                ...result,
+                message: `${args.dryRun ? 'Would reserve' : 'Reserved'} ${result.reserved.length} port(s); ` +
+                  `${result.alreadyReserved.length} already reserved, ${result.conflicts.length} conflict(s), ` +
+                  `${result.coolingDown.length} in reuse cooldown, ` +
+                  `${result.outsideRange.length} outside the project range`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__decommission_project': {
+        if (projectName !== 'meta') {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: 'Access denied: only the meta project can decommission projects',
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        const report = await projectDecommissioner.decommission(args.projectName as string, {
+          dryRun: args.dryRun as boolean | undefined,
+          force: args.force as boolean | undefined,
+          decommissionedBy: projectName,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                ...report,
+                message: report.dryRun
+                  ? report.blockedByLivePorts
+                    ? `Would refuse: ports ${report.livePorts.join(', ')} are still live (pass force to override)`
+                    : `Would release ${report.allocations.length} allocation(s), remove ${report.tunnelRoutes.length} tunnel route(s) and free ${report.totalPorts} ports`
+                  : `Decommissioned ${report.projectName}: released ${report.releasedPorts.length} allocation(s), freed ${report.totalPorts} ports`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__reconcile_ports': {
+        // Project scoping: non-meta projects can only check (and reap) their own ports
+        const report = await portReconciler.reconcile({
+          projectName: projectName === 'meta' ? (args.projectName as string | undefined) : projectName,
+          reap: args.reap as boolean | undefined,
+          reapAfterHours: args.reapAfterHours as number | undefined,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                healthy: report.dead.length === 0 && report.conflicts.length === 0,
+                ...report,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       // ==================== TASKS ====================
       case 'mcp__meta__start_task': {
         const task = await taskTimer.startTask(
@@ -691,6 +2392,9 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             estimatedSeconds: args.estimatedSeconds as number | undefined,
             projectName: args.projectName as string | undefined,
             complexity: args.complexity as 'simple' | 'moderate' | 'complex' | undefined,
+            modelUsed: args.modelUsed as string | undefined,
+            parentTaskId: args.parentTaskId as string | undefined,
+            parallelExecution: args.parallelExecution as boolean | undefined,
           }
         );
         return {
@@ -707,6 +2411,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'mcp__meta__task_heartbeat': {
+        // Project scoping: non-meta projects can only keep their own tasks alive
+        const alive = await taskTimer.heartbeat(
+          args.taskId as string,
+          projectName === 'meta' ? undefined : projectName
+        );
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: alive,
+                taskId: args.taskId,
+                message: alive
+                  ? 'Heartbeat recorded'
+                  : 'Task not found or no longer running (completed, failed or abandoned)',
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'mcp__meta__complete_task': {
         const task = await taskTimer.completeTask(args.taskId as string, {
           filesChanged: args.filesChanged as number | undefined,
@@ -752,6 +2478,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'mcp__meta__estimate_task': {
+        // Project scoping: Non-meta projects estimate from their own perspective
+        const estimateProjectName = projectName === 'meta'
+          ? (args.projectName as string | undefined)
+          : projectName;
+
+        const estimate = await taskEstimator.estimate({
+          taskType: args.taskType as string,
+          projectName: estimateProjectName,
+          modelUsed: args.modelUsed as string | undefined,
+          complexity: args.complexity as TaskComplexity | undefined,
+          filesChanged: args.filesChanged as number | undefined,
+          linesChanged: args.linesChanged as number | undefined,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                estimate,
+                message: estimate ? undefined : `No completed ${args.taskType} tasks to estimate from`,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'mcp__meta__get_task_tree': {
+        const report = await taskTimer.getTaskTree(args.rootTaskId as string);
+
+        // Project scoping: Non-meta projects only see their own task trees
+        if (!report || (projectName !== 'meta' && report.root.task.projectName !== projectName)) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: false,
+                  error: `Task not found: ${args.rootTaskId}`,
+                }, null, 2),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: renderTaskTree(report),
+            },
+          ],
+        };
+      }
+
       // ==================== PIV LOOP ====================
       case 'mcp__meta__start_piv_loop': {
         const epic = {
@@ -921,10 +2705,15 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       isError: true,
     };
   }
-});
+}
 
 // Start server
 async function main() {
+  // Secrets stored by earlier runs must be masked from the first tool result on
+  await secretsManager.loadRedactionValues().catch((error) => {
+    console.error('Failed to load secret values for redaction:', error instanceof Error ? error.message : error);
+  });
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Supervisor MCP server running on stdio');
@@ -1,17 +1,28 @@
-import db from '../db/pool.js';
+import pg from 'pg';
+import db, { Queryable } from '../db/pool.js';
+import { ComposePortsParseResult, PortManifestFormat, parseComposePorts, renderPortManifest } from './portManifest.js';
+
+/**
+ * A contiguous run of ports owned by one project (both ends inclusive)
+ */
+export interface PortBlock {
+  portStart: number;
+  portEnd: number;
+}
 
 export interface PortRange {
   id: number;
   projectId: number;
   projectName: string;
-  portRangeStart: number;
-  portRangeEnd: number;
+  blocks: PortBlock[];  // Ordered by port, never overlapping
+  totalPorts: number;
   createdAt: Date;
 }
 
 export interface PortAllocation {
   id: number;
   projectId: number;
+  projectName: string;
   port: number;
   serviceName: string;
   description?: string;
@@ -19,46 +30,169 @@ export interface PortAllocation {
   allocatedAt: Date;
   allocatedBy?: string;
   status: 'active' | 'released';
+  idempotencyKey?: string;
+  leaseTtlSeconds?: number;  // Set for leased allocations
+  leaseExpiresAt?: Date;     // Released by the lease sweeper after this unless renewed
+  lastHeartbeatAt?: Date;
+}
+
+/**
+ * Outcome of reserving the ports a compose file publishes
+ */
+export interface ComposeImportResult {
+  reserved: { serviceName: string; port: number }[];         // Newly allocated (or would be, on a dry run)
+  alreadyReserved: { serviceName: string; port: number }[];  // Already active for the same service
+  conflicts: { serviceName: string; port: number; allocatedTo: string }[];
+  coolingDown: { serviceName: string; port: number; reusableAt: Date }[];  // Another service released it recently
+  outsideRange: { serviceName: string; port: number }[];
+  skipped: ComposePortsParseResult['skipped'];
+}
+
+export interface PortAllocationOptions {
+  description?: string;
+  cloudflareHostname?: string;
+  allocatedBy?: string;
+}
+
+export interface AllocatePortOptions extends PortAllocationOptions {
+  idempotencyKey?: string;
+  leaseTtlSeconds?: number;  // Lease mode: released unless renewed within this many seconds
+  sticky?: boolean;          // Prefer the port this service held last, if it is free
+}
+
+/**
+ * One holder of a port, from port_allocation_history
+ */
+export interface PortHistoryEntry {
+  port: number;
+  projectName: string;
+  serviceName: string;
+  allocatedBy?: string;
+  allocatedAt: Date;
+  releasedAt: Date | null;  // null while held
 }
 
+const RANGE_SELECT = `SELECT pr.id, pr.project_id AS "projectId", pr.project_name AS "projectName",
+         COALESCE(
+           json_agg(json_build_object('portStart', b.port_start, 'portEnd', b.port_end) ORDER BY b.port_start)
+             FILTER (WHERE b.id IS NOT NULL),
+           '[]'
+         ) AS blocks,
+         COALESCE(SUM(b.port_end - b.port_start + 1), 0)::int AS "totalPorts",
+         pr.created_at AS "createdAt"
+  FROM project_port_ranges pr
+  LEFT JOIN port_range_blocks b ON b.project_id = pr.project_id`;
+
+const ALLOCATION_SELECT = `SELECT pa.id, pa.project_id AS "projectId", ppr.project_name AS "projectName", pa.port,
+         pa.service_name AS "serviceName", pa.description, pa.cloudflare_hostname AS "cloudflareHostname",
+         pa.allocated_at AS "allocatedAt", pa.allocated_by AS "allocatedBy", pa.status,
+         pa.idempotency_key AS "idempotencyKey", pa.lease_ttl_seconds AS "leaseTtlSeconds",
+         pa.lease_expires_at AS "leaseExpiresAt", pa.last_heartbeat_at AS "lastHeartbeatAt"
+  FROM port_allocations pa
+  JOIN project_port_ranges ppr ON pa.project_id = ppr.project_id`;
+
+// Serializes range creation and growth: project IDs come from MAX(project_id) + 1
+// and new blocks go in the first gap, both of which race without it
+const RANGE_LAYOUT_LOCK = `SELECT pg_advisory_xact_lock(hashtext('project_port_ranges'))`;
+
+const MIN_PORT = 3000;
+const MAX_PORT = 65535;
+
+export const DEFAULT_RANGE_SIZE = 100;
+export const MAX_BLOCK_SIZE = 1000;
+
+export const DEFAULT_REUSE_COOLDOWN_SECONDS = 0;
+
+/**
+ * True if another holder released the port within the cooldown
+ *
+ * Parameters: $2 = cooldown seconds, $3/$4 = project and service asking
+ * (the last holder itself may always take its port back).
+ */
+function inReuseCooldown(portColumn: string): string {
+  return `EXISTS (
+    SELECT 1 FROM port_allocation_history recent
+    WHERE recent.port = ${portColumn}
+      AND recent.released_at > NOW() - make_interval(secs => $2)
+      AND (recent.project_name, recent.service_name) IS DISTINCT FROM ($3::text, $4::text)
+  )`;
+}
+
+/**
+ * Port ranges and allocations
+ *
+ * Every allocation runs in a transaction holding the project's range row
+ * (SELECT ... FOR UPDATE), so parallel agents allocating in the same project
+ * queue up instead of racing between the availability check and the insert.
+ */
 export class PortManager {
+  private reuseCooldownSeconds: number;
+
   /**
-   * Create a new port range for a project
+   * @param options.reuseCooldownSeconds - How long a released port is kept
+   *        from other services (default: 0, no cooldown)
    */
-  async createPortRange(projectName: string): Promise<PortRange> {
-    // Get next available project ID
-    const nextIdResult = await db.query<{ get_next_project_id: number }>(
-      `SELECT get_next_project_id() as get_next_project_id`
-    );
-    const projectId = nextIdResult.rows[0].get_next_project_id;
+  constructor(options?: { reuseCooldownSeconds?: number }) {
+    this.reuseCooldownSeconds = options?.reuseCooldownSeconds ?? DEFAULT_REUSE_COOLDOWN_SECONDS;
+  }
 
-    // Calculate port range start (each project gets 100 ports)
-    const portRangeStart = 3000 + projectId * 100;
-    const portRangeEnd = portRangeStart + 99;
+  /**
+   * Create a new port range for a project
+   *
+   * @param size - Number of ports in the first block (default: 100)
+   */
+  async createPortRange(projectName: string, size = DEFAULT_RANGE_SIZE): Promise<PortRange> {
+    return db.transaction(async (client) => {
+      await client.query(RANGE_LAYOUT_LOCK);
+      return this.insertPortRange(client, projectName, size);
+    });
+  }
 
-    // Ensure we don't exceed valid port range
-    if (portRangeEnd > 65435) {
-      throw new Error('No more port ranges available (maximum capacity reached)');
+  /**
+   * Get a project's port range, creating it on first use
+   *
+   * Safe to call concurrently: only one caller creates the range.
+   *
+   * @param size - Size of the range if it has to be created
+   */
+  async ensurePortRange(projectName: string, size = DEFAULT_RANGE_SIZE): Promise<PortRange> {
+    const existing = await this.getPortRange(projectName);
+    if (existing) {
+      return existing;
     }
 
-    const result = await db.query<PortRange>(
-      `INSERT INTO project_port_ranges (project_id, project_name, port_range_start, port_range_end)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, project_id, project_name, port_range_start, port_range_end, created_at`,
-      [projectId, projectName, portRangeStart, portRangeEnd]
-    );
+    return db.transaction(async (client) => {
+      await client.query(RANGE_LAYOUT_LOCK);
+      return (await this.getPortRange(projectName, client)) ?? this.insertPortRange(client, projectName, size);
+    });
+  }
 
-    return result.rows[0];
+  /**
+   * Grow a project's range by another block of ports
+   *
+   * The block directly after the project's last one is used when free, so
+   * ranges stay contiguous where possible; otherwise the first gap that fits.
+   */
+  async expandPortRange(projectName: string, size: number): Promise<PortRange> {
+    return db.transaction(async (client) => {
+      await client.query(RANGE_LAYOUT_LOCK);
+      const portRange = await this.lockPortRange(client, projectName);
+
+      const lastBlock = portRange.blocks[portRange.blocks.length - 1];
+      await this.insertBlock(client, portRange.projectId, size, lastBlock ? lastBlock.portEnd + 1 : undefined);
+
+      return (await this.getPortRange(projectName, client))!;
+    });
   }
 
   /**
    * Get port range for a project
    */
-  async getPortRange(projectName: string): Promise<PortRange | null> {
-    const result = await db.query<PortRange>(
-      `SELECT id, project_id, project_name, port_range_start, port_range_end, created_at
-       FROM project_port_ranges
-       WHERE project_name = $1`,
+  async getPortRange(projectName: string, queryable: Queryable = db): Promise<PortRange | null> {
+    const result = await queryable.query<PortRange>(
+      `${RANGE_SELECT}
+       WHERE pr.project_name = $1
+       GROUP BY pr.id`,
       [projectName]
     );
 
@@ -70,9 +204,9 @@ export class PortManager {
    */
   async listPortRanges(): Promise<PortRange[]> {
     const result = await db.query<PortRange>(
-      `SELECT id, project_id, project_name, port_range_start, port_range_end, created_at
-       FROM project_port_ranges
-       ORDER BY project_id`
+      `${RANGE_SELECT}
+       GROUP BY pr.id
+       ORDER BY pr.project_id`
     );
 
     return result.rows;
@@ -80,36 +214,91 @@ export class PortManager {
 
   /**
    * Allocate next available port for a project
+   *
+   * With an idempotency key, a retried call returns the allocation the first
+   * call made (as long as it is still active) instead of taking another port.
+   * With leaseTtlSeconds the allocation is a lease: renewLease() keeps it,
+   * and the lease sweeper releases it once it expires.
+   *
+   * Ports another service released within the reuse cooldown are skipped, so
+   * stale clients of the old service don't reach the new one.
    */
   async allocatePort(
     projectName: string,
     serviceName: string,
-    options?: {
-      description?: string;
-      cloudflareHostname?: string;
-      allocatedBy?: string;
-    }
+    options?: AllocatePortOptions
   ): Promise<PortAllocation> {
-    // Get project's port range
-    const portRange = await this.getPortRange(projectName);
-    if (!portRange) {
-      throw new Error(`No port range found for project: ${projectName}`);
+    if (options?.leaseTtlSeconds !== undefined && !(options.leaseTtlSeconds > 0)) {
+      throw new Error(`leaseTtlSeconds must be positive, got ${options.leaseTtlSeconds}`);
     }
 
-    // Use database function to allocate next available port
-    const result = await db.query<{ allocate_next_port: number }>(
-      `SELECT allocate_next_port($1, $2, $3, $4) as allocate_next_port`,
-      [portRange.projectId, serviceName, options?.description, options?.cloudflareHostname]
-    );
+    return db.transaction(async (client) => {
+      const portRange = await this.lockPortRange(client, projectName);
+
+      if (options?.idempotencyKey) {
+        const previous = await client.query<PortAllocation>(
+          `${ALLOCATION_SELECT}
+           WHERE pa.project_id = $1 AND pa.idempotency_key = $2 AND pa.status = 'active'`,
+          [portRange.projectId, options.idempotencyKey]
+        );
+        if (previous.rows.length > 0) {
+          const allocation = previous.rows[0];
+          if (allocation.serviceName !== serviceName) {
+            throw new Error(
+              `Idempotency key ${options.idempotencyKey} already allocated port ${allocation.port} ` +
+              `to ${allocation.serviceName}, not ${serviceName}`
+            );
+          }
+          return allocation;
+        }
+      }
 
-    const port = result.rows[0].allocate_next_port;
+      const params = [portRange.projectId, this.reuseCooldownSeconds, projectName, serviceName];
+
+      const sticky = options?.sticky
+        ? await client.query<{ port: number }>(
+            `SELECT h.port
+             FROM port_allocation_history h
+             JOIN available_ports ap ON ap.port = h.port AND ap.project_id = $1
+             WHERE h.project_name = $3 AND h.service_name = $4 AND h.released_at IS NOT NULL
+               AND NOT ${inReuseCooldown('h.port')}
+             ORDER BY h.released_at DESC
+             LIMIT 1`,
+            params
+          )
+        : null;
+
+      const available = sticky?.rows.length
+        ? sticky
+        : await client.query<{ port: number }>(
+            `SELECT ap.port
+             FROM available_ports ap
+             WHERE ap.project_id = $1 AND NOT ${inReuseCooldown('ap.port')}
+             ORDER BY ap.port
+             LIMIT 1`,
+            params
+          );
+      if (available.rows.length === 0) {
+        const cooling = await client.query<{ count: number }>(
+          `SELECT COUNT(*)::int AS count
+           FROM available_ports ap
+           WHERE ap.project_id = $1 AND ${inReuseCooldown('ap.port')}`,
+          params
+        );
+        throw new Error(
+          `No available ports for project: ${projectName}` +
+          (cooling.rows[0].count > 0 ? ` (${cooling.rows[0].count} released ports are in their reuse cooldown)` : '')
+        );
+      }
 
-    // Return the allocation details
-    const allocation = await this.getPort(port);
-    if (!allocation) {
-      throw new Error(`Failed to retrieve allocation for port ${port}`);
-    }
-    return allocation;
+      return this.upsertAllocation(
+        client,
+        portRange.projectId,
+        available.rows[0].port,
+        serviceName,
+        { ...options, allocatedBy: options?.allocatedBy ?? 'system' }
+      );
+    });
   }
 
   /**
@@ -119,57 +308,198 @@ export class PortManager {
     projectName: string,
     port: number,
     serviceName: string,
-    options?: {
-      description?: string;
-      cloudflareHostname?: string;
-      allocatedBy?: string;
-    }
+    options?: PortAllocationOptions
   ): Promise<PortAllocation> {
-    // Get project's port range
-    const portRange = await this.getPortRange(projectName);
-    if (!portRange) {
-      throw new Error(`No port range found for project: ${projectName}`);
-    }
+    return db.transaction(async (client) => {
+      const portRange = await this.lockPortRange(client, projectName);
 
-    // Verify port is within range
-    if (port < portRange.portRangeStart || port > portRange.portRangeEnd) {
-      throw new Error(
-        `Port ${port} is outside project ${projectName} range (${portRange.portRangeStart}-${portRange.portRangeEnd})`
-      );
-    }
+      // Verify port is within range
+      if (!portRange.blocks.some((block) => port >= block.portStart && port <= block.portEnd)) {
+        throw new Error(`Port ${port} is outside project ${projectName} range (${formatBlocks(portRange.blocks)})`);
+      }
+
+      const cooling = await this.reuseCooldown(client, projectName, port, serviceName);
+      if (cooling) {
+        throw new Error(
+          `Port ${port} was released by ${cooling.serviceName} recently; ` +
+          `another service can have it from ${cooling.reusableAt.toISOString()}`
+        );
+      }
+
+      return this.upsertAllocation(client, portRange.projectId, port, serviceName, options ?? {});
+    });
+  }
 
-    // Check if port is already allocated
-    const existing = await this.getPort(port);
-    if (existing && existing.status === 'active') {
-      throw new Error(`Port ${port} is already allocated to ${existing.serviceName}`);
+  /**
+   * The recent holder keeping a port in its reuse cooldown, if any
+   */
+  private async reuseCooldown(
+    queryable: Queryable,
+    projectName: string,
+    port: number,
+    serviceName: string
+  ): Promise<{ serviceName: string; reusableAt: Date } | null> {
+    const result = await queryable.query<{ serviceName: string; reusableAt: Date }>(
+      `SELECT recent.service_name AS "serviceName",
+              recent.released_at + make_interval(secs => $2) AS "reusableAt"
+       FROM port_allocation_history recent
+       WHERE recent.port = $1
+         AND recent.released_at > NOW() - make_interval(secs => $2)
+         AND (recent.project_name, recent.service_name) IS DISTINCT FROM ($3::text, $4::text)
+       ORDER BY recent.released_at DESC
+       LIMIT 1`,
+      [port, this.reuseCooldownSeconds, projectName, serviceName]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Lock a project's range row for the rest of the transaction
+   */
+  private async lockPortRange(client: pg.PoolClient, projectName: string): Promise<PortRange> {
+    const locked = await client.query(
+      `SELECT 1 FROM project_port_ranges WHERE project_name = $1 FOR UPDATE`,
+      [projectName]
+    );
+    if (locked.rows.length === 0) {
+      throw new Error(`No port range found for project: ${projectName}`);
     }
+    return (await this.getPortRange(projectName, client))!;
+  }
 
-    // Allocate the port
-    const result = await db.query<PortAllocation>(
-      `INSERT INTO port_allocations (project_id, port, service_name, description, cloudflare_hostname, allocated_by, status)
-       VALUES ($1, $2, $3, $4, $5, $6, 'active')
-       RETURNING id, project_id, port, service_name, description, cloudflare_hostname, allocated_at, allocated_by, status`,
+  /**
+   * Insert an allocation, reusing the row of a previously released one
+   *
+   * port is UNIQUE, so a released port keeps its row; taking it over resets
+   * every per-allocation column.
+   */
+  private async upsertAllocation(
+    client: pg.PoolClient,
+    projectId: number,
+    port: number,
+    serviceName: string,
+    options: AllocatePortOptions
+  ): Promise<PortAllocation> {
+    const result = await client.query(
+      `INSERT INTO port_allocations
+         (project_id, port, service_name, description, cloudflare_hostname, allocated_by, idempotency_key,
+          lease_ttl_seconds, lease_expires_at, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8::int, NOW() + make_interval(secs => $8::int), 'active')
+       ON CONFLICT (port) DO UPDATE SET
+         project_id = EXCLUDED.project_id,
+         service_name = EXCLUDED.service_name,
+         description = EXCLUDED.description,
+         cloudflare_hostname = EXCLUDED.cloudflare_hostname,
+         allocated_by = EXCLUDED.allocated_by,
+         idempotency_key = EXCLUDED.idempotency_key,
+         lease_ttl_seconds = EXCLUDED.lease_ttl_seconds,
+         lease_expires_at = EXCLUDED.lease_expires_at,
+         last_heartbeat_at = NULL,
+         allocated_at = NOW(),
+         status = 'active',
+         last_seen_alive_at = NULL,
+         dead_since = NULL
+       WHERE port_allocations.status = 'released'
+       RETURNING id`,
       [
-        portRange.projectId,
+        projectId,
         port,
         serviceName,
-        options?.description,
-        options?.cloudflareHostname,
-        options?.allocatedBy,
+        options.description,
+        options.cloudflareHostname,
+        options.allocatedBy,
+        options.idempotencyKey,
+        options.leaseTtlSeconds === undefined ? null : Math.ceil(options.leaseTtlSeconds),
       ]
     );
 
-    return result.rows[0];
+    if (result.rows.length === 0) {
+      const existing = await this.getPort(port, client);
+      throw new Error(`Port ${port} is already allocated to ${existing?.serviceName ?? 'another service'}`);
+    }
+
+    const allocation = await this.getPort(port, client);
+    if (!allocation) {
+      throw new Error(`Failed to retrieve allocation for port ${port}`);
+    }
+    return allocation;
+  }
+
+  /**
+   * Create a range with the next free project ID (caller holds RANGE_LAYOUT_LOCK)
+   */
+  private async insertPortRange(client: pg.PoolClient, projectName: string, size: number): Promise<PortRange> {
+    // Get next available project ID
+    const nextIdResult = await client.query<{ get_next_project_id: number }>(
+      `SELECT get_next_project_id() as get_next_project_id`
+    );
+    const projectId = nextIdResult.rows[0].get_next_project_id;
+
+    await client.query(
+      `INSERT INTO project_port_ranges (project_id, project_name)
+       VALUES ($1, $2)`,
+      [projectId, projectName]
+    );
+    await this.insertBlock(client, projectId, size);
+
+    return (await this.getPortRange(projectName, client))!;
+  }
+
+  /**
+   * Add a block of ports to a project (caller holds RANGE_LAYOUT_LOCK)
+   *
+   * @param preferredStart - Use this start if the block fits there, else the first gap
+   */
+  private async insertBlock(
+    client: pg.PoolClient,
+    projectId: number,
+    size: number,
+    preferredStart?: number
+  ): Promise<PortBlock> {
+    if (!Number.isInteger(size) || size < 1 || size > MAX_BLOCK_SIZE) {
+      throw new Error(`Port block size must be a whole number from 1 to ${MAX_BLOCK_SIZE}, got ${size}`);
+    }
+
+    // Candidate starts: the preferred one, the bottom of the port space and the port after every block
+    const result = await client.query<{ port_start: number }>(
+      `SELECT candidate AS port_start
+       FROM (
+         SELECT $2::int AS candidate, 0 AS priority WHERE $2::int IS NOT NULL
+         UNION ALL SELECT $3::int, 1
+         UNION ALL SELECT port_end + 1, 1 FROM port_range_blocks
+       ) candidates
+       WHERE candidate >= $3 AND candidate + $1 - 1 <= $4
+         AND NOT EXISTS (
+           SELECT 1 FROM port_range_blocks b
+           WHERE int4range(b.port_start, b.port_end, '[]') && int4range(candidate, candidate + $1 - 1, '[]')
+         )
+       ORDER BY priority, candidate
+       LIMIT 1`,
+      [size, preferredStart ?? null, MIN_PORT, MAX_PORT]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`No free block of ${size} ports left (maximum capacity reached)`);
+    }
+
+    const portStart = result.rows[0].port_start;
+    const portEnd = portStart + size - 1;
+    await client.query(
+      `INSERT INTO port_range_blocks (project_id, port_start, port_end)
+       VALUES ($1, $2, $3)`,
+      [projectId, portStart, portEnd]
+    );
+
+    return { portStart, portEnd };
   }
 
   /**
    * Get port allocation details
    */
-  async getPort(port: number): Promise<PortAllocation | null> {
-    const result = await db.query<PortAllocation>(
-      `SELECT id, project_id, port, service_name, description, cloudflare_hostname, allocated_at, allocated_by, status
-       FROM port_allocations
-       WHERE port = $1`,
+  async getPort(port: number, queryable: Queryable = db): Promise<PortAllocation | null> {
+    const result = await queryable.query<PortAllocation>(
+      `${ALLOCATION_SELECT}
+       WHERE pa.port = $1`,
       [port]
     );
 
@@ -180,15 +510,12 @@ export class PortManager {
    * List all port allocations for a project
    */
   async listAllocations(projectName?: string, includeReleased = false): Promise<PortAllocation[]> {
-    let query = `SELECT pa.id, pa.project_id, pa.port, pa.service_name, pa.description,
-                        pa.cloudflare_hostname, pa.allocated_at, pa.allocated_by, pa.status
-                 FROM port_allocations pa`;
+    let query = ALLOCATION_SELECT;
 
     const params: any[] = [];
 
     if (projectName) {
       query += `
-        JOIN project_port_ranges ppr ON pa.project_id = ppr.project_id
         WHERE ppr.project_name = $1`;
       params.push(projectName);
 
@@ -205,6 +532,190 @@ export class PortManager {
     return result.rows;
   }
 
+  /**
+   * Render a project's active allocations as a .env snippet, docker-compose
+   * ports override or JSON
+   *
+   * @param containerPorts - Container port per host port for the compose format
+   */
+  async exportManifest(
+    projectName: string,
+    format: PortManifestFormat,
+    containerPorts?: Record<number, number>
+  ): Promise<string> {
+    if (!(await this.getPortRange(projectName))) {
+      throw new Error(`No port range found for project: ${projectName}`);
+    }
+
+    return renderPortManifest(projectName, await this.listAllocations(projectName), format, containerPorts);
+  }
+
+  /**
+   * Reserve the host ports an existing docker-compose file already publishes
+   *
+   * Ports outside the project's range or held by another service are
+   * reported, not taken.
+   */
+  async importComposePorts(
+    projectName: string,
+    composeContent: string,
+    options?: { dryRun?: boolean; allocatedBy?: string }
+  ): Promise<ComposeImportResult> {
+    const portRange = await this.getPortRange(projectName);
+    if (!portRange) {
+      throw new Error(`No port range found for project: ${projectName}`);
+    }
+
+    const parsed = parseComposePorts(composeContent);
+    const result: ComposeImportResult = {
+      reserved: [],
+      alreadyReserved: [],
+      conflicts: [],
+      coolingDown: [],
+      outsideRange: [],
+      skipped: parsed.skipped,
+    };
+
+    for (const { serviceName, hostPort: port } of parsed.ports) {
+      if (!portRange.blocks.some((block) => port >= block.portStart && port <= block.portEnd)) {
+        result.outsideRange.push({ serviceName, port });
+        continue;
+      }
+
+      const existing = await this.getPort(port);
+      if (existing?.status === 'active') {
+        if (existing.serviceName === serviceName) {
+          result.alreadyReserved.push({ serviceName, port });
+        } else {
+          result.conflicts.push({ serviceName, port, allocatedTo: existing.serviceName });
+        }
+        continue;
+      }
+
+      const cooling = await this.reuseCooldown(db, projectName, port, serviceName);
+      if (cooling) {
+        result.coolingDown.push({ serviceName, port, reusableAt: cooling.reusableAt });
+        continue;
+      }
+
+      if (!options?.dryRun) {
+        try {
+          await this.allocateSpecificPort(projectName, port, serviceName, {
+            description: 'Imported from docker-compose',
+            allocatedBy: options?.allocatedBy,
+          });
+        } catch (error) {
+          // Lost a race with another allocation since getPort
+          const holder = await this.getPort(port);
+          if (holder?.status !== 'active') {
+            throw error;
+          }
+          result.conflicts.push({ serviceName, port, allocatedTo: holder.serviceName });
+          continue;
+        }
+      }
+      result.reserved.push({ serviceName, port });
+    }
+
+    return result;
+  }
+
+  /**
+   * Everyone who has held a port, newest first
+   *
+   * @param projectName - Only entries for this project
+   */
+  async getPortHistory(port: number, options?: { projectName?: string; limit?: number }): Promise<PortHistoryEntry[]> {
+    const result = await db.query<PortHistoryEntry>(
+      `SELECT port, project_name AS "projectName", service_name AS "serviceName",
+              allocated_by AS "allocatedBy", allocated_at AS "allocatedAt", released_at AS "releasedAt"
+       FROM port_allocation_history
+       WHERE port = $1 AND ($2::text IS NULL OR project_name = $2)
+       ORDER BY allocated_at DESC, id DESC
+       LIMIT $3`,
+      [port, options?.projectName ?? null, options?.limit ?? 50]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Renew the lease on a leased allocation (heartbeat)
+   *
+   * @param ttlSeconds - New lease length (default: the one it was allocated with)
+   * @param projectName - Only renew if the port belongs to this project
+   * @returns The renewed allocation, or null if the port has no active lease
+   */
+  async renewLease(
+    port: number,
+    options?: { ttlSeconds?: number; projectName?: string }
+  ): Promise<PortAllocation | null> {
+    if (options?.ttlSeconds !== undefined && !(options.ttlSeconds > 0)) {
+      throw new Error(`ttlSeconds must be positive, got ${options.ttlSeconds}`);
+    }
+
+    const result = await db.query(
+      `UPDATE port_allocations pa
+       SET lease_ttl_seconds = COALESCE($2::int, pa.lease_ttl_seconds),
+           lease_expires_at = NOW() + make_interval(secs => COALESCE($2::int, pa.lease_ttl_seconds)),
+           last_heartbeat_at = NOW()
+       FROM project_port_ranges ppr
+       WHERE pa.project_id = ppr.project_id
+         AND pa.port = $1
+         AND pa.status = 'active'
+         AND pa.lease_ttl_seconds IS NOT NULL
+         AND ($3::text IS NULL OR ppr.project_name = $3)`,
+      [port, options?.ttlSeconds === undefined ? null : Math.ceil(options.ttlSeconds), options?.projectName ?? null]
+    );
+
+    return result.rowCount ? this.getPort(port) : null;
+  }
+
+  /**
+   * Release every leased allocation whose lease has run out
+   *
+   * @returns The released ports
+   */
+  async releaseExpiredLeases(): Promise<number[]> {
+    const result = await db.query<{ port: number }>(
+      `UPDATE port_allocations
+       SET status = 'released'
+       WHERE status = 'active' AND lease_expires_at < NOW()
+       RETURNING port`
+    );
+
+    return result.rows.map((row) => row.port).sort((a, b) => a - b);
+  }
+
+  /**
+   * Release expired leases on a timer; runs never overlap
+   *
+   * @returns Function that stops the sweeper
+   */
+  startLeaseSweeper(intervalMs: number): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const released = await this.releaseExpiredLeases();
+        if (released.length > 0) {
+          console.error(`[PortManager] Released ${released.length} expired lease(s):`, released);
+        }
+      } catch (error) {
+        console.error('[PortManager] Lease sweep failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
   /**
    * Release a port (mark as released, not delete)
    */
@@ -276,15 +787,14 @@ export class PortManager {
       return null;
     }
 
-    const result = await db.query<PortAllocation>(
+    const result = await db.query(
       `UPDATE port_allocations
        SET ${updateFields.join(', ')}
-       WHERE port = $1
-       RETURNING id, project_id, port, service_name, description, cloudflare_hostname, allocated_at, allocated_by, status`,
+       WHERE port = $1`,
       params
     );
 
-    return result.rows.length > 0 ? result.rows[0] : null;
+    return result.rowCount ? this.getPort(port) : null;
   }
 
   /**
@@ -295,6 +805,7 @@ export class PortManager {
     allocated: number;
     available: number;
     utilizationPercent: number;
+    blocks: PortBlock[];
   }> {
     const portRange = await this.getPortRange(projectName);
     if (!portRange) {
@@ -303,16 +814,24 @@ export class PortManager {
 
     const allocations = await this.listAllocations(projectName, false);
 
-    const total = 100; // Each project gets 100 ports
+    const total = portRange.totalPorts;
     const allocated = allocations.length;
     const available = total - allocated;
-    const utilizationPercent = (allocated / total) * 100;
+    const utilizationPercent = total > 0 ? (allocated / total) * 100 : 0;
 
     return {
       total,
       allocated,
       available,
       utilizationPercent,
+      blocks: portRange.blocks,
     };
   }
 }
+
+/**
+ * "3100-3199, 4000-4009" for error messages
+ */
+function formatBlocks(blocks: PortBlock[]): string {
+  return blocks.map((block) => `${block.portStart}-${block.portEnd}`).join(', ') || 'no ports';
+}
@@ -0,0 +1,64 @@
+import net from 'net';
+
+export interface PortProbeResult {
+  port: number;
+  listening: boolean;  // Accepted a TCP connection
+  bindable: boolean;   // We could bind it ourselves (false if anything holds it)
+}
+
+/**
+ * Checks what the OS says about a port, independent of port_allocations
+ *
+ * Injected so tests can fake liveness without opening sockets.
+ */
+export interface PortProbe {
+  probe(port: number): Promise<PortProbeResult>;
+}
+
+/**
+ * PortProbe that connects to and binds real TCP ports
+ */
+export class TcpPortProbe implements PortProbe {
+  private host: string;
+  private timeoutMs: number;
+
+  constructor(options?: { host?: string; timeoutMs?: number }) {
+    this.host = options?.host ?? '127.0.0.1';
+    this.timeoutMs = options?.timeoutMs ?? 500;
+  }
+
+  async probe(port: number): Promise<PortProbeResult> {
+    const listening = await this.canConnect(port);
+    // A listener means the bind would fail anyway; skip the second syscall
+    const bindable = listening ? false : await this.canBind(port);
+    return { port, listening, bindable };
+  }
+
+  private canConnect(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const socket = net.createConnection({ host: this.host, port });
+      const finish = (connected: boolean) => {
+        socket.destroy();
+        resolve(connected);
+      };
+
+      socket.setTimeout(this.timeoutMs);
+      socket.once('connect', () => finish(true));
+      socket.once('timeout', () => finish(false));
+      socket.once('error', () => finish(false));
+    });
+  }
+
+  /**
+   * Bind on the unspecified address, which conflicts with a listener on any interface
+   */
+  private canBind(port: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const server = net.createServer();
+      server.once('error', () => resolve(false));
+      server.listen({ port, exclusive: true }, () => {
+        server.close(() => resolve(true));
+      });
+    });
+  }
+}
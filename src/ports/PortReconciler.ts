@@ -0,0 +1,235 @@
+import db from '../db/pool.js';
+import { PortProbe, TcpPortProbe } from './PortProbe.js';
+
+export type PortLivenessState = 'alive' | 'dead' | 'conflict';
+
+export interface PortLiveness {
+  port: number;
+  projectName: string;
+  serviceName: string | null;  // null for conflicts (nothing allocated)
+  state: PortLivenessState;
+  deadSince: Date | null;
+}
+
+export interface PortReconcileOptions {
+  projectName?: string;      // Default: every project
+  reap?: boolean;            // Release allocations dead for longer than reapAfterHours
+  reapAfterHours?: number;   // Default: 24
+}
+
+export interface PortReconcileReport {
+  checkedAt: Date;
+  projectName: string | null;
+  portsProbed: number;
+  alive: number;
+  dead: PortLiveness[];
+  conflicts: PortLiveness[];  // In use by something with no active allocation
+  reapable: number[];         // Dead for longer than reapAfterHours
+  reaped: number[];
+}
+
+interface AllocationRow {
+  id: number;
+  port: number;
+  service_name: string;
+  project_name: string;
+  dead_since: Date | null;
+}
+
+interface BlockRow {
+  project_name: string;
+  port_start: number;
+  port_end: number;
+}
+
+const DEFAULT_REAP_AFTER_HOURS = 24;
+
+// Probes in flight at once; localhost connects are cheap but file descriptors are not free
+const PROBE_CONCURRENCY = 32;
+
+/**
+ * Compares port_allocations with what is actually listening
+ *
+ * Active allocations with nothing bound are dead; ports in a project range
+ * that are taken without an active allocation are conflicts (allocate_port
+ * would hand them out and the service would fail to start). The optional
+ * reaper releases allocations that have stayed dead past a threshold.
+ */
+export class PortReconciler {
+  private probe: PortProbe;
+
+  constructor(probe: PortProbe = new TcpPortProbe()) {
+    this.probe = probe;
+  }
+
+  async reconcile(options: PortReconcileOptions = {}): Promise<PortReconcileReport> {
+    const projectName = options.projectName ?? null;
+    const reapAfterHours = options.reapAfterHours ?? DEFAULT_REAP_AFTER_HOURS;
+    if (!(reapAfterHours >= 0)) {
+      throw new Error(`reapAfterHours must be zero or more, got ${options.reapAfterHours}`);
+    }
+
+    const blocks = await db.query<BlockRow>(
+      `SELECT pr.project_name, b.port_start, b.port_end
+       FROM port_range_blocks b
+       JOIN project_port_ranges pr ON b.project_id = pr.project_id
+       WHERE $1::text IS NULL OR pr.project_name = $1
+       ORDER BY b.port_start`,
+      [projectName]
+    );
+    if (projectName && blocks.rows.length === 0) {
+      throw new Error(`No port range found for project: ${projectName}`);
+    }
+
+    const allocations = await db.query<AllocationRow>(
+      `SELECT pa.id, pa.port, pa.service_name, ppr.project_name, pa.dead_since
+       FROM port_allocations pa
+       JOIN project_port_ranges ppr ON pa.project_id = ppr.project_id
+       WHERE pa.status = 'active' AND ($1::text IS NULL OR ppr.project_name = $1)
+       ORDER BY pa.port`,
+      [projectName]
+    );
+    const allocationsByPort = new Map(allocations.rows.map((row) => [row.port, row]));
+
+    const ports: { port: number; projectName: string }[] = [];
+    for (const block of blocks.rows) {
+      for (let port = block.port_start; port <= block.port_end; port++) {
+        ports.push({ port, projectName: block.project_name });
+      }
+    }
+
+    const inUse = await this.probeAll(ports.map(({ port }) => port));
+
+    const aliveIds: number[] = [];
+    const deadIds: number[] = [];
+    const conflicts: PortLiveness[] = [];
+    for (const { port, projectName: owner } of ports) {
+      const allocation = allocationsByPort.get(port);
+      if (allocation) {
+        (inUse.get(port) ? aliveIds : deadIds).push(allocation.id);
+      } else if (inUse.get(port)) {
+        conflicts.push({ port, projectName: owner, serviceName: null, state: 'conflict', deadSince: null });
+      }
+    }
+
+    if (aliveIds.length > 0) {
+      await db.query(
+        `UPDATE port_allocations
+         SET last_seen_alive_at = NOW(), dead_since = NULL
+         WHERE id = ANY($1::int[])`,
+        [aliveIds]
+      );
+    }
+
+    // Keep the first dead_since so "dead for N hours" survives repeated runs
+    const deadRows = deadIds.length > 0
+      ? (await db.query<{ id: number; dead_since: Date; reapable: boolean }>(
+          `UPDATE port_allocations
+           SET dead_since = COALESCE(dead_since, NOW())
+           WHERE id = ANY($1::int[])
+           RETURNING id, dead_since, dead_since <= NOW() - make_interval(secs => $2) AS reapable`,
+          [deadIds, reapAfterHours * 3600]
+        )).rows
+      : [];
+    const deadById = new Map(deadRows.map((row) => [row.id, row]));
+
+    const dead: PortLiveness[] = [];
+    const reapable: number[] = [];
+    for (const allocation of allocations.rows) {
+      const row = deadById.get(allocation.id);
+      if (!row) {
+        continue;
+      }
+      dead.push({
+        port: allocation.port,
+        projectName: allocation.project_name,
+        serviceName: allocation.service_name,
+        state: 'dead',
+        deadSince: row.dead_since,
+      });
+      if (row.reapable) {
+        reapable.push(allocation.port);
+      }
+    }
+
+    let reaped: number[] = [];
+    if (options.reap && reapable.length > 0) {
+      // Re-check dead_since in SQL: a concurrent run may have seen the port come back
+      const result = await db.query<{ port: number }>(
+        `UPDATE port_allocations
+         SET status = 'released'
+         WHERE port = ANY($1::int[])
+           AND status = 'active'
+           AND dead_since <= NOW() - make_interval(secs => $2)
+         RETURNING port`,
+        [reapable, reapAfterHours * 3600]
+      );
+      reaped = result.rows.map((row) => row.port).sort((a, b) => a - b);
+    }
+
+    return {
+      checkedAt: new Date(),
+      projectName,
+      portsProbed: ports.length,
+      alive: aliveIds.length,
+      dead,
+      conflicts,
+      reapable,
+      reaped,
+    };
+  }
+
+  /**
+   * Reconcile (and reap) on a timer; runs never overlap
+   *
+   * @returns Function that stops the scheduler
+   */
+  startScheduler(intervalMs: number, options: Omit<PortReconcileOptions, 'projectName'> = {}): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const report = await this.reconcile(options);
+        if (report.reaped.length + report.conflicts.length > 0) {
+          console.error(
+            `[PortReconciler] Reaped ${report.reaped.length} dead allocation(s), ` +
+            `${report.conflicts.length} port(s) in use without an allocation`,
+            { reaped: report.reaped, conflicts: report.conflicts.map((conflict) => conflict.port) }
+          );
+        }
+      } catch (error) {
+        console.error('[PortReconciler] Scheduled run failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Probe ports with bounded concurrency
+   *
+   * @returns Whether each port is held by anything (listening or bound)
+   */
+  private async probeAll(ports: number[]): Promise<Map<number, boolean>> {
+    const inUse = new Map<number, boolean>();
+    let next = 0;
+
+    const worker = async () => {
+      while (next < ports.length) {
+        const port = ports[next++];
+        const result = await this.probe.probe(port);
+        inUse.set(port, result.listening || !result.bindable);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(PROBE_CONCURRENCY, ports.length) }, worker));
+    return inUse;
+  }
+}
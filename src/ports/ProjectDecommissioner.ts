@@ -0,0 +1,182 @@
+import db from '../db/pool.js';
+import { CloudflareManager } from '../cloudflare/CloudflareManager.js';
+import { PortBlock, PortManager } from './PortManager.js';
+import { PortProbe, TcpPortProbe } from './PortProbe.js';
+
+export interface DecommissionOptions {
+  dryRun?: boolean;           // Only report what would happen
+  force?: boolean;            // Go ahead even if allocated ports are still live
+  decommissionedBy?: string;
+}
+
+export interface DecommissionPlan {
+  projectName: string;
+  blocks: PortBlock[];
+  totalPorts: number;
+  allocations: { port: number; serviceName: string; live: boolean }[];  // Active ones
+  tunnelRoutes: { hostname: string; tunnelId: string; port: number }[];
+  livePorts: number[];
+}
+
+export interface DecommissionReport extends DecommissionPlan {
+  dryRun: boolean;
+  blockedByLivePorts: boolean;  // Live ports and no force: a real run refuses
+  forced: boolean;
+  archiveId: number | null;     // null on dry runs
+  releasedPorts: number[];
+}
+
+// Ranges the schema seeds for the supervisor itself
+const PROTECTED_PROJECTS = new Set(['meta', 'shared-services']);
+
+/**
+ * Removes a project from the port system
+ *
+ * Releases its allocations, tears down its Cloudflare tunnel routes, archives
+ * the range (archived_port_ranges) and deletes its blocks so the ports and
+ * the project name can be used again.
+ */
+export class ProjectDecommissioner {
+  private portManager: PortManager;
+  private cloudflareManager: CloudflareManager;
+  private probe: PortProbe;
+
+  constructor(portManager: PortManager, cloudflareManager: CloudflareManager, probe: PortProbe = new TcpPortProbe()) {
+    this.portManager = portManager;
+    this.cloudflareManager = cloudflareManager;
+    this.probe = probe;
+  }
+
+  /**
+   * Decommission a project, or preview it with dryRun
+   *
+   * @throws Error if the project is protected, has no range, or still has
+   *         live ports and force is not set
+   */
+  async decommission(projectName: string, options: DecommissionOptions = {}): Promise<DecommissionReport> {
+    if (PROTECTED_PROJECTS.has(projectName)) {
+      throw new Error(`Project ${projectName} is part of the supervisor and cannot be decommissioned`);
+    }
+
+    const plan = await this.plan(projectName);
+    const blockedByLivePorts = plan.livePorts.length > 0 && !options.force;
+
+    if (options.dryRun) {
+      return {
+        ...plan,
+        dryRun: true,
+        blockedByLivePorts,
+        forced: false,
+        archiveId: null,
+        releasedPorts: [],
+      };
+    }
+
+    if (blockedByLivePorts) {
+      const live = plan.allocations
+        .filter((allocation) => allocation.live)
+        .map((allocation) => `${allocation.port} (${allocation.serviceName})`);
+      throw new Error(
+        `Project ${projectName} still has live ports: ${live.join(', ')}. Stop them first or pass force`
+      );
+    }
+
+    // Routes first: a route left pointing at a port another project gets next is worse than a kept range
+    for (const route of plan.tunnelRoutes) {
+      await this.cloudflareManager.deleteTunnelRoute(route.hostname);
+    }
+
+    const forced = plan.livePorts.length > 0;
+    const { archiveId, releasedPorts } = await db.transaction(async (client) => {
+      const locked = await client.query<{ project_id: number; created_at: Date }>(
+        `SELECT project_id, created_at FROM project_port_ranges WHERE project_name = $1 FOR UPDATE`,
+        [projectName]
+      );
+      if (locked.rows.length === 0) {
+        throw new Error(`No port range found for project: ${projectName}`);
+      }
+      const { project_id: projectId, created_at: rangeCreatedAt } = locked.rows[0];
+
+      // Includes anything allocated since the plan was made
+      const released = await client.query<{ port: number }>(
+        `UPDATE port_allocations
+         SET status = 'released'
+         WHERE project_id = $1 AND status = 'active'
+         RETURNING port`,
+        [projectId]
+      );
+
+      const archived = await client.query<{ id: number }>(
+        `INSERT INTO archived_port_ranges
+           (project_id, project_name, blocks, allocations, tunnel_routes, range_created_at, decommissioned_by, forced)
+         SELECT $1, $2, $3::jsonb,
+                COALESCE((SELECT jsonb_agg(to_jsonb(pa) ORDER BY pa.port) FROM port_allocations pa WHERE pa.project_id = $1), '[]'),
+                $4::jsonb, $5, $6, $7
+         RETURNING id`,
+        [
+          projectId,
+          projectName,
+          JSON.stringify(plan.blocks),
+          JSON.stringify(plan.tunnelRoutes),
+          rangeCreatedAt,
+          options.decommissionedBy,
+          forced,
+        ]
+      );
+
+      await client.query(`DELETE FROM port_allocations WHERE project_id = $1`, [projectId]);
+      await client.query(`DELETE FROM port_range_blocks WHERE project_id = $1`, [projectId]);
+      await client.query(`DELETE FROM project_port_ranges WHERE project_id = $1`, [projectId]);
+
+      return {
+        archiveId: archived.rows[0].id,
+        releasedPorts: released.rows.map((row) => row.port).sort((a, b) => a - b),
+      };
+    });
+
+    return { ...plan, dryRun: false, blockedByLivePorts: false, forced, archiveId, releasedPorts };
+  }
+
+  /**
+   * What decommissioning would touch, with a liveness probe of every active allocation
+   */
+  private async plan(projectName: string): Promise<DecommissionPlan> {
+    const portRange = await this.portManager.getPortRange(projectName);
+    if (!portRange) {
+      throw new Error(`No port range found for project: ${projectName}`);
+    }
+
+    const allocations = [];
+    for (const allocation of await this.portManager.listAllocations(projectName)) {
+      const result = await this.probe.probe(allocation.port);
+      allocations.push({
+        port: allocation.port,
+        serviceName: allocation.serviceName,
+        live: result.listening || !result.bindable,
+      });
+    }
+
+    // Linked = tagged with the project, or pointing at one of its ports
+    const routes = await db.query<{ hostname: string; tunnelId: string; port: number }>(
+      `SELECT r.hostname, r.tunnel_id AS "tunnelId", r.port
+       FROM cloudflare_tunnel_routes r
+       WHERE r.project_name = $1
+          OR EXISTS (
+            SELECT 1 FROM port_range_blocks b
+            JOIN project_port_ranges pr ON b.project_id = pr.project_id
+            WHERE pr.project_name = $1 AND r.port BETWEEN b.port_start AND b.port_end
+          )
+       ORDER BY r.hostname`,
+      [projectName]
+    );
+
+    return {
+      projectName,
+      blocks: portRange.blocks,
+      totalPorts: portRange.totalPorts,
+      allocations,
+      tunnelRoutes: routes.rows,
+      livePorts: allocations.filter((allocation) => allocation.live).map((allocation) => allocation.port),
+    };
+  }
+}
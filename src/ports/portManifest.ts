@@ -0,0 +1,272 @@
+import { renderEnvContent } from '../secrets/envFile.js';
+import type { PortAllocation } from './PortManager.js';
+
+/**
+ * Renders port allocations as files services consume, and reads the ports a
+ * docker-compose file already publishes
+ *
+ * Only the compose subset that declares ports is understood (services ->
+ * name -> ports, short or long syntax), so no YAML library is needed.
+ */
+
+export type PortManifestFormat = 'env' | 'compose' | 'json';
+
+export const PORT_MANIFEST_FORMATS: PortManifestFormat[] = ['env', 'compose', 'json'];
+
+/**
+ * A published port found in a compose file
+ */
+export interface ComposePort {
+  serviceName: string;
+  hostPort: number;
+  containerPort: number;
+}
+
+export interface ComposePortsParseResult {
+  ports: ComposePort[];
+  skipped: { serviceName: string; entry: string; reason: string }[];
+}
+
+/**
+ * Environment variable for a service's port: api-server -> API_SERVER_PORT
+ *
+ * A service with several ports gets _2, _3, ... on the later ones.
+ */
+export function servicePortEnvVar(serviceName: string, index = 0): string {
+  const base = serviceName.toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  const name = `${/^[0-9]/.test(base) ? `_${base}` : base}_PORT`;
+  return index === 0 ? name : `${name}_${index + 1}`;
+}
+
+/**
+ * Render allocations in one of the manifest formats
+ *
+ * @param containerPorts - Container port per host port for the compose format
+ *                         (default: same as the host port)
+ */
+export function renderPortManifest(
+  projectName: string,
+  allocations: PortAllocation[],
+  format: PortManifestFormat,
+  containerPorts: Record<number, number> = {}
+): string {
+  const entries = manifestEntries(allocations);
+
+  switch (format) {
+    case 'env':
+      return renderEnvContent(
+        Object.fromEntries(entries.map((entry) => [entry.envVar, String(entry.port)])),
+        `Ports allocated to ${projectName} (generated by supervisor-service)`
+      );
+
+    case 'compose': {
+      const lines = [
+        `# Ports allocated to ${projectName} (generated by supervisor-service)`,
+        '# Use with: docker compose -f docker-compose.yml -f <this file> up',
+      ];
+      if (entries.length === 0) {
+        lines.push('services: {}');
+      } else {
+        lines.push('services:');
+        for (const serviceName of [...new Set(entries.map((entry) => entry.serviceName))].sort()) {
+          lines.push(`  ${yamlKey(serviceName)}:`, '    ports:');
+          for (const entry of entries.filter((e) => e.serviceName === serviceName)) {
+            lines.push(`      - "${entry.port}:${containerPorts[entry.port] ?? entry.port}"`);
+          }
+        }
+      }
+      return `${lines.join('\n')}\n`;
+    }
+
+    case 'json':
+      return `${JSON.stringify({ projectName, ports: entries }, null, 2)}\n`;
+
+    default:
+      throw new Error(`Unknown manifest format: ${format} (use ${PORT_MANIFEST_FORMATS.join(', ')})`);
+  }
+}
+
+/**
+ * One entry per allocation, with env var names made unique per service
+ */
+function manifestEntries(allocations: PortAllocation[]) {
+  const seen = new Map<string, number>();
+
+  return [...allocations]
+    .sort((a, b) => a.port - b.port)
+    .map((allocation) => {
+      const index = seen.get(allocation.serviceName) ?? 0;
+      seen.set(allocation.serviceName, index + 1);
+      return {
+        serviceName: allocation.serviceName,
+        port: allocation.port,
+        envVar: servicePortEnvVar(allocation.serviceName, index),
+        description: allocation.description ?? null,
+        cloudflareHostname: allocation.cloudflareHostname ?? null,
+      };
+    });
+}
+
+function yamlKey(key: string): string {
+  return /^[A-Za-z0-9_.-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Find every published host port in a docker-compose file
+ *
+ * Understands "3105:80", "127.0.0.1:3105:80", "3105-3107:80-82", "/udp"
+ * suffixes, ${VAR:-3105} defaults, flow lists and the long syntax
+ * (published/target). Entries without a fixed host port are skipped.
+ */
+export function parseComposePorts(content: string): ComposePortsParseResult {
+  const result: ComposePortsParseResult = { ports: [], skipped: [] };
+  const lines = content.split(/\r?\n/).map(stripYamlComment);
+
+  const servicesLine = lines.findIndex((line) => /^services:\s*$/.test(line));
+  if (servicesLine === -1) {
+    return result;
+  }
+
+  let serviceIndent = -1;
+  let serviceName: string | null = null;
+  let portsIndent = -1;
+  let longEntry: { indent: number; fields: Record<string, string> } | null = null;
+
+  const flushLongEntry = () => {
+    if (longEntry && serviceName) {
+      const { published, target } = longEntry.fields;
+      addPortEntry(result, serviceName, published ? `${published}:${target ?? published}` : `${target}`);
+    }
+    longEntry = null;
+  };
+
+  for (let i = servicesLine + 1; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim() === '') {
+      continue;
+    }
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    // Back at the top level: the services mapping is over
+    if (indent === 0) {
+      break;
+    }
+
+    if (serviceIndent === -1) {
+      serviceIndent = indent;
+    }
+
+    if (indent === serviceIndent) {
+      flushLongEntry();
+      portsIndent = -1;
+      const match = text.match(/^["']?([^"':]+)["']?:\s*$/);
+      serviceName = match ? match[1] : null;
+      continue;
+    }
+
+    if (!serviceName) {
+      continue;
+    }
+
+    if (portsIndent !== -1 && (indent > portsIndent || (indent === portsIndent && text.startsWith('-')))) {
+      if (text.startsWith('-')) {
+        flushLongEntry();
+        const item = text.replace(/^-\s*/, '');
+        const field = item.match(/^([a-z_]+):\s*(.*)$/);
+        if (field) {
+          longEntry = { indent, fields: { [field[1]]: unquote(field[2]) } };
+        } else {
+          addPortEntry(result, serviceName, unquote(item));
+        }
+      } else if (longEntry) {
+        const field = text.match(/^([a-z_]+):\s*(.*)$/);
+        if (field) {
+          longEntry.fields[field[1]] = unquote(field[2]);
+        }
+      }
+      continue;
+    }
+
+    flushLongEntry();
+    portsIndent = -1;
+
+    const portsKey = text.match(/^ports:\s*(.*)$/);
+    if (portsKey) {
+      const inline = portsKey[1].trim();
+      if (inline.startsWith('[')) {
+        inline.replace(/^\[|\]$/g, '').split(',').map((item) => unquote(item.trim())).filter(Boolean)
+          .forEach((item) => addPortEntry(result, serviceName!, item));
+      } else {
+        portsIndent = indent;
+      }
+    }
+  }
+  flushLongEntry();
+
+  return result;
+}
+
+/**
+ * Parse one short-syntax port entry and add its host ports
+ */
+function addPortEntry(result: ComposePortsParseResult, serviceName: string, entry: string): void {
+  const skip = (reason: string) => result.skipped.push({ serviceName, entry, reason });
+
+  const resolved = entry.replace(/\$\{[A-Za-z_][A-Za-z0-9_]*(?::?-([^}]*))?\}/g, (_match, fallback) => fallback ?? '');
+  const spec = resolved.replace(/\/(tcp|udp|sctp)$/, '');
+
+  // [ip:]host:container, where ip may be a bracketed IPv6 address
+  const match = spec.match(/^(?:(?:\[[^\]]+\]|[0-9.]+):)?(\d+(?:-\d+)?):(\d+(?:-\d+)?)$/);
+  if (!match) {
+    skip(/^\d+(-\d+)?$/.test(spec)
+      ? 'No host port (Docker picks one)'
+      : resolved === entry ? 'Not a port mapping' : 'Uses a variable without a default');
+    return;
+  }
+
+  const [hostStart, hostEnd] = portSpan(match[1]);
+  const [containerStart, containerEnd] = portSpan(match[2]);
+  const count = hostEnd - hostStart + 1;
+  if (containerEnd - containerStart + 1 !== count && containerStart !== containerEnd) {
+    skip('Host and container port ranges differ in size');
+    return;
+  }
+
+  for (let offset = 0; offset < count; offset++) {
+    result.ports.push({
+      serviceName,
+      hostPort: hostStart + offset,
+      containerPort: containerStart === containerEnd ? containerStart : containerStart + offset,
+    });
+  }
+}
+
+function portSpan(spec: string): [number, number] {
+  const [start, end] = spec.split('-').map(Number);
+  return [start, end ?? start];
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(["'])(.*)\1$/, '$2');
+}
+
+/**
+ * Drop a trailing # comment (one preceded by whitespace, outside quotes)
+ */
+function stripYamlComment(line: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.substring(0, i).trimEnd();
+    }
+  }
+  return line.trimEnd();
+}
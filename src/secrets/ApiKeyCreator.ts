@@ -1,3 +1,12 @@
+import { SecretsManager } from './SecretsManager.js';
+import { SecretAccessContext } from './SecretAuditLog.js';
+import { FetchHttpClient, HttpClient } from './HttpClient.js';
+import { signJwtRS256 } from './jwt.js';
+import { ServiceAccountKey, parseServiceAccountKey } from './serviceAccountKey.js';
+import {
+  IamServiceAccountProvider,
+  ServiceAccountProvider,
+} from '../gcloud/ServiceAccountProvider.js';
 
 /**
  * Result of API key creation
@@ -5,6 +14,7 @@
 export interface ApiKeyCreationResult {
   apiKey: string;
   keyId?: string;
+  keyPath?: string;        // Where the key was stored, if it was
   serviceAccountEmail?: string;
   expiresAt?: Date;
   metadata?: Record<string, any>;
@@ -18,6 +28,252 @@ export interface ApiKeyCreationOptions {
   projectName: string;
   permissions?: string[];
   name?: string;
+  repositories?: string[];  // GitHub: repo names to scope the token to (default: all)
+  gcloudProjectId?: string; // Google: project to create the account in (default: the admin key's)
+  forceNew?: boolean;       // GitHub: mint a new token even if a cached one is still valid
+}
+
+export interface ApiKeyCreatorOptions {
+  httpClient?: HttpClient;
+  stripeApiBase?: string;  // Default: https://api.stripe.com
+  githubApiBase?: string;  // Default: https://api.github.com
+  serviceAccountProvider?: ServiceAccountProvider;  // Default: IAM API as meta/gcloud/service_account_key
+}
+
+export type PermissionAccess = 'read' | 'write';
+
+const STRIPE_MASTER_KEY_PATH = 'meta/stripe/master_key';
+
+const GITHUB_APP_ID_PATH = 'meta/github/app_id';
+const GITHUB_APP_PRIVATE_KEY_PATH = 'meta/github/app_private_key';
+const GITHUB_INSTALLATION_ID_PATH = 'meta/github/installation_id';
+
+const GOOGLE_ADMIN_KEY_PATH = 'meta/gcloud/service_account_key';
+
+// Mint a fresh installation token this long before the cached one expires
+const GITHUB_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/**
+ * Stripe resources a restricted key can be scoped to
+ */
+const STRIPE_RESOURCES = new Set([
+  'balance',
+  'charges',
+  'checkout_sessions',
+  'coupons',
+  'customers',
+  'events',
+  'invoices',
+  'payment_intents',
+  'payment_methods',
+  'payouts',
+  'prices',
+  'products',
+  'refunds',
+  'setup_intents',
+  'subscriptions',
+  'webhook_endpoints',
+]);
+
+/**
+ * GitHub App permissions an installation token can be narrowed to
+ */
+const GITHUB_PERMISSIONS = new Set([
+  'actions',
+  'administration',
+  'checks',
+  'contents',
+  'deployments',
+  'environments',
+  'issues',
+  'metadata',
+  'packages',
+  'pages',
+  'pull_requests',
+  'secrets',
+  'statuses',
+  'workflows',
+]);
+
+/**
+ * Parse "resource" (write), "resource:read" or "resource:write" permissions
+ *
+ * Write implies read, so the broadest access wins when a resource is
+ * listed twice.
+ */
+function parseScopedPermissions(
+  permissions: string[],
+  known: Set<string>,
+  providerLabel: string
+): Record<string, PermissionAccess> {
+  const scopes: Record<string, PermissionAccess> = {};
+
+  for (const permission of permissions) {
+    const [resource, access = 'write'] = permission.trim().toLowerCase().split(':');
+
+    if (!known.has(resource)) {
+      throw new Error(
+        `Unknown ${providerLabel} resource '${resource}'. Supported: ${[...known].join(', ')}`
+      );
+    }
+    if (access !== 'read' && access !== 'write') {
+      throw new Error(`Invalid access '${access}' for ${providerLabel} resource '${resource}' (expected read or write)`);
+    }
+
+    if (scopes[resource] !== 'write') {
+      scopes[resource] = access;
+    }
+  }
+
+  return scopes;
+}
+
+/**
+ * Map permissions to Stripe resource scopes
+ *
+ * @throws Error on unknown resources or access levels, or no permissions
+ */
+export function stripeScopesFromPermissions(permissions: string[]): Record<string, PermissionAccess> {
+  if (permissions.length === 0) {
+    throw new Error('At least one permission is required for a Stripe restricted key (e.g. "charges:read")');
+  }
+  return parseScopedPermissions(permissions, STRIPE_RESOURCES, 'Stripe');
+}
+
+/**
+ * Map permissions to GitHub App installation token permissions
+ *
+ * No permissions means the token gets everything the installation has.
+ *
+ * @throws Error on unknown permissions or access levels
+ */
+export function githubPermissionsFromScopes(permissions: string[]): Record<string, PermissionAccess> {
+  return parseScopedPermissions(permissions, GITHUB_PERMISSIONS, 'GitHub');
+}
+
+/**
+ * IAM roles for a Google service account
+ *
+ * Permissions are role names ("roles/...") or "gemini" for Vertex AI
+ * access. Without permissions, gemini keys get roles/aiplatform.user and
+ * google keys roles/viewer.
+ */
+export function googleRolesFromPermissions(provider: 'google' | 'gemini' | string, permissions: string[]): string[] {
+  if (permissions.length === 0) {
+    return provider === 'gemini' ? ['roles/aiplatform.user'] : ['roles/viewer'];
+  }
+
+  const roles = permissions.map((permission) => {
+    const trimmed = permission.trim();
+    if (trimmed.toLowerCase() === 'gemini') {
+      return 'roles/aiplatform.user';
+    }
+    if (!/^roles\/[A-Za-z0-9_.]+$/.test(trimmed)) {
+      throw new Error(`Invalid Google permission '${permission}' (expected "gemini" or a role like "roles/viewer")`);
+    }
+    return trimmed;
+  });
+
+  return [...new Set(roles)];
+}
+
+/**
+ * Turn a key name into a valid service account ID
+ * (6-30 characters: lowercase letters, digits and hyphens, starting with a letter)
+ */
+function serviceAccountIdFor(name: string): string {
+  const accountId = name
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^[^a-z]+/, '')
+    .slice(0, 30)
+    .replace(/-+$/, '');
+
+  if (accountId === '') {
+    throw new Error(`Cannot derive a service account ID from '${name}'`);
+  }
+  // Short project names still need 6 characters
+  return accountId.length < 6 ? `${accountId}-sa`.padEnd(6, '0') : accountId;
+}
+
+const CREATED_VIA = 'api-key-creator';
+
+/**
+ * Secret metadata recording how a key was created, so SecretRotator can
+ * create its replacement and revoke it later
+ */
+function creationMetadata(options: ApiKeyCreationOptions, extra: Record<string, string | undefined>): Record<string, string> {
+  const metadata: Record<string, string | undefined> = {
+    created_via: CREATED_VIA,
+    key_provider: options.provider,
+    project_name: options.projectName,
+    permissions: options.permissions?.length ? JSON.stringify(options.permissions) : undefined,
+    name: options.name,
+    repositories: options.repositories?.length ? JSON.stringify(options.repositories) : undefined,
+    ...extra,
+  };
+  return Object.fromEntries(
+    Object.entries(metadata).filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+}
+
+/**
+ * Where createApiKey stores a provider's key for a project
+ */
+export function apiKeyPathFor(options: Pick<ApiKeyCreationOptions, 'provider' | 'projectName'>): string {
+  switch (options.provider) {
+    case 'google':
+    case 'gemini':
+      return `project/${options.projectName}/gcloud_service_account`;
+    case 'stripe':
+      return `project/${options.projectName}/stripe_restricted_key`;
+    case 'github':
+      return `project/${options.projectName}/github_token`;
+    default:
+      throw new Error(`Provider '${options.provider}' does not support automatic API key creation`);
+  }
+}
+
+/**
+ * Rebuild the options a key was created with from its secret metadata
+ *
+ * @returns null if the secret wasn't created by ApiKeyCreator
+ */
+export function creationOptionsFromMetadata(metadata?: Record<string, string>): ApiKeyCreationOptions | null {
+  if (metadata?.created_via !== CREATED_VIA || !metadata.key_provider || !metadata.project_name) {
+    return null;
+  }
+
+  return {
+    provider: metadata.key_provider as ApiKeyCreationOptions['provider'],
+    projectName: metadata.project_name,
+    permissions: metadata.permissions ? JSON.parse(metadata.permissions) : undefined,
+    name: metadata.name,
+    repositories: metadata.repositories ? JSON.parse(metadata.repositories) : undefined,
+    gcloudProjectId: metadata.gcloud_project_id,
+  };
+}
+
+/**
+ * Sign a GitHub App JWT (RS256), valid for 9 minutes
+ *
+ * Issued 60 seconds in the past to allow for clock drift, as GitHub
+ * recommends; GitHub rejects JWTs valid for more than 10 minutes.
+ */
+export function signGitHubAppJwt(appId: string, privateKey: string, now = Date.now()): string {
+  const issuedAt = Math.floor(now / 1000) - 60;
+  return signJwtRS256({ iat: issuedAt, exp: issuedAt + 600, iss: appId }, privateKey);
+}
+
+/**
+ * Parse a JSON response body, or null if it isn't JSON
+ */
+function parseJsonBody(body: string): any {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -33,9 +289,21 @@ export interface ApiKeyCreationOptions {
  * - OpenAI: No API for key creation
  */
 export class ApiKeyCreator {
-  // SecretsManager will be used when we implement full API key creation in Epic 6
-  // For now (Epic 12), all create methods are stubs
-  constructor() {}
+  private secretsManager: SecretsManager;
+  private httpClient: HttpClient;
+  private stripeApiBase: string;
+  private githubApiBase: string;
+  private githubTokens = new Map<string, ApiKeyCreationResult & { expiresAt: Date }>();
+  private serviceAccountProvider: ServiceAccountProvider;
+
+  constructor(secretsManager: SecretsManager, options?: ApiKeyCreatorOptions) {
+    this.secretsManager = secretsManager;
+    this.httpClient = options?.httpClient ?? new FetchHttpClient();
+    this.stripeApiBase = (options?.stripeApiBase ?? 'https://api.stripe.com').replace(/\/+$/, '');
+    this.githubApiBase = (options?.githubApiBase ?? 'https://api.github.com').replace(/\/+$/, '');
+    this.serviceAccountProvider = options?.serviceAccountProvider
+      ?? new IamServiceAccountProvider(this.httpClient, () => this.loadGoogleAdminKey());
+  }
 
   /**
    * Check if a provider supports automatic key creation
@@ -49,19 +317,22 @@ export class ApiKeyCreator {
    *
    * @throws Error if provider doesn't support automatic creation
    */
-  async createApiKey(options: ApiKeyCreationOptions): Promise<ApiKeyCreationResult> {
+  async createApiKey(
+    options: ApiKeyCreationOptions,
+    context?: SecretAccessContext
+  ): Promise<ApiKeyCreationResult> {
     const provider = options.provider.toLowerCase();
 
     switch (provider) {
       case 'google':
       case 'gemini':
-        return await this.createGoogleKey(options);
+        return await this.createGoogleKey(options, context);
 
       case 'stripe':
-        return await this.createStripeKey(options);
+        return await this.createStripeKey(options, context);
 
       case 'github':
-        return await this.createGitHubToken(options);
+        return await this.createGitHubToken(options, context);
 
       default:
         throw new Error(
@@ -72,184 +343,294 @@ export class ApiKeyCreator {
   }
 
   /**
-   * Create Google/Gemini API key via Service Account
+   * Create a Google/Gemini service account with a new key, and store the
+   * JSON key at project/{projectName}/gcloud_service_account
    *
-   * NOTE: This is a STUB implementation for Epic 12.
-   * Full implementation will be done in Epic 6 (GCloud Integration).
+   * The service account is reused if it already exists; every call adds
+   * a new key. Roles come from permissions ("roles/..." or "gemini").
    */
   private async createGoogleKey(
-    _options: ApiKeyCreationOptions
+    options: ApiKeyCreationOptions,
+    context?: SecretAccessContext
   ): Promise<ApiKeyCreationResult> {
-    // STUB: Will be implemented in Epic 6
-    throw new Error(
-      'Google API key creation not yet implemented. ' +
-      'Will be completed in Epic 6 (GCloud Integration). ' +
-      'Please provide Google API key manually for now.'
-    );
-
-    /*
-    // Future implementation (Epic 6):
-    const { google } = require('googleapis');
-    const iam = google.iam('v1');
-
-    // 1. Create service account
-    const serviceAccount = await iam.projects.serviceAccounts.create({
-      name: `projects/${gcloudProjectId}`,
-      requestBody: {
-        accountId: `${options.projectName}-api`,
-        serviceAccount: {
-          displayName: `${options.projectName} API Service Account`
-        }
-      }
-    });
-
-    // 2. Grant IAM roles
-    const roles = options.permissions?.includes('gemini')
-      ? ['roles/aiplatform.user']
-      : ['roles/viewer'];
-
-    for (const role of roles) {
-      await iam.projects.setIamPolicy({
-        resource: `projects/${gcloudProjectId}`,
-        requestBody: {
-          policy: {
-            bindings: [{
-              role,
-              members: [`serviceAccount:${serviceAccount.data.email}`]
-            }]
-          }
-        }
-      });
-    }
+    const roles = googleRolesFromPermissions(options.provider, options.permissions ?? []);
+    const accountId = serviceAccountIdFor(options.name || `${options.projectName}-api`);
 
-    // 3. Create key
-    const key = await iam.projects.serviceAccounts.keys.create({
-      name: `projects/${gcloudProjectId}/serviceAccounts/${serviceAccount.data.email}`,
-      requestBody: {
-        privateKeyType: 'TYPE_GOOGLE_CREDENTIALS_FILE'
-      }
-    });
+    const gcloudProjectId = options.gcloudProjectId
+      ?? (await this.loadGoogleAdminKey(context)).project_id;
 
-    const keyData = JSON.parse(
-      Buffer.from(key.data.privateKeyData, 'base64').toString()
+    const provider = this.serviceAccountProvider;
+    const account = await provider.ensureServiceAccount(
+      gcloudProjectId,
+      accountId,
+      `${options.projectName} API Service Account`
     );
+    await provider.grantRoles(gcloudProjectId, account.email, roles);
+    const keyJson = await provider.createKey(gcloudProjectId, account.email);
+
+    const keyPath = apiKeyPathFor(options);
+    const secret = await this.secretsManager.storeServiceAccountKey(keyPath, keyJson, {
+      createdBy: CREATED_VIA,
+      metadata: creationMetadata(options, {
+        gcloud_project_id: gcloudProjectId,
+        key_id: parseServiceAccountKey(keyJson).private_key_id,
+      }),
+    }, context);
 
     return {
-      apiKey: keyData.private_key,
-      keyId: key.data.name,
-      serviceAccountEmail: serviceAccount.data.email
+      apiKey: keyJson,
+      keyId: secret.metadata?.private_key_id,
+      keyPath,
+      serviceAccountEmail: account.email,
+      metadata: {
+        gcloudProjectId,
+        roles,
+      },
     };
-    */
   }
 
   /**
-   * Create Stripe restricted API key
+   * The admin service-account key IamServiceAccountProvider authenticates with
+   */
+  private async loadGoogleAdminKey(context?: SecretAccessContext): Promise<ServiceAccountKey> {
+    const json = await this.secretsManager.retrieveServiceAccountKey(GOOGLE_ADMIN_KEY_PATH, undefined, context);
+    if (!json) {
+      throw new Error(`Google admin service account key not found in secrets (${GOOGLE_ADMIN_KEY_PATH})`);
+    }
+    return parseServiceAccountKey(json);
+  }
+
+  /**
+   * Create a Stripe restricted API key and store it at
+   * project/{projectName}/stripe_restricted_key
    *
-   * NOTE: This is a STUB implementation for Epic 12.
-   * Full implementation requires Stripe master API key.
+   * Authenticates with the master key stored at meta/stripe/master_key.
    */
   private async createStripeKey(
-    _options: ApiKeyCreationOptions
+    options: ApiKeyCreationOptions,
+    context?: SecretAccessContext
   ): Promise<ApiKeyCreationResult> {
-    // STUB: Requires Stripe master key to create restricted keys
-    throw new Error(
-      'Stripe API key creation requires a master Stripe API key. ' +
-      'Please provide Stripe API key manually for now.'
-    );
-
-    /*
-    // Future implementation (when we have master Stripe key):
-    const Stripe = require('stripe');
+    const scopes = stripeScopesFromPermissions(options.permissions ?? []);
 
-    // Get master Stripe key from secrets
-    const masterKey = await this.secretsManager.get('meta/stripe/master_key');
+    const masterKey = await this.secretsManager.retrieve(STRIPE_MASTER_KEY_PATH, context);
     if (!masterKey) {
-      throw new Error('Master Stripe API key not found in secrets');
-    }
-
-    const stripe = new Stripe(masterKey);
-
-    // Create restricted key
-    const key = await stripe.restrictedKeys.create({
-      name: options.name || `${options.projectName}-api`,
-      resources: {
-        charges: {
-          permissions: options.permissions?.includes('charges') ? ['write'] : []
-        },
-        customers: {
-          permissions: options.permissions?.includes('customers') ? ['write'] : []
-        },
-        subscriptions: {
-          permissions: options.permissions?.includes('subscriptions') ? ['write'] : []
-        }
-      }
+      throw new Error(`Master Stripe API key not found in secrets (${STRIPE_MASTER_KEY_PATH})`);
+    }
+
+    const name = options.name || `${options.projectName}-api`;
+    const form = new URLSearchParams({ name });
+    for (const [resource, access] of Object.entries(scopes)) {
+      form.append(`permissions[${resource}]`, access);
+    }
+
+    const response = await this.httpClient.request({
+      method: 'POST',
+      url: `${this.stripeApiBase}/v1/restricted_keys`,
+      headers: {
+        Authorization: `Bearer ${masterKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: form.toString(),
     });
 
+    const body = parseJsonBody(response.body);
+    if (response.status < 200 || response.status >= 300) {
+      const message = body?.error?.message ?? `HTTP ${response.status}`;
+      throw new Error(`Stripe restricted key creation failed: ${message}`);
+    }
+    if (typeof body?.secret !== 'string' || typeof body?.id !== 'string') {
+      throw new Error('Stripe restricted key creation failed: response has no key id or secret');
+    }
+
+    const keyPath = apiKeyPathFor(options);
+    const permissions = Object.entries(scopes).map(([resource, access]) => `${resource}:${access}`);
+    await this.secretsManager.store(keyPath, body.secret, {
+      createdBy: CREATED_VIA,
+      description: `Stripe restricted key ${body.id} (${name}): ${permissions.join(', ')}`,
+      secretType: 'api_key',
+      provider: 'stripe',
+      metadata: creationMetadata(options, { key_id: body.id }),
+    }, context);
+
     return {
-      apiKey: key.secret,
-      keyId: key.id,
+      apiKey: body.secret,
+      keyId: body.id,
+      keyPath,
       metadata: {
         restricted: true,
-        permissions: options.permissions
-      }
+        livemode: body.livemode,
+        permissions,
+      },
     };
-    */
   }
 
   /**
-   * Create GitHub installation access token
+   * Mint a GitHub App installation token and store it at
+   * project/{projectName}/github_token (with its expiry)
    *
-   * NOTE: This is a STUB implementation for Epic 12.
-   * Requires GitHub App installation.
+   * Signs a JWT with the App private key from meta/github/app_private_key,
+   * then exchanges it for a token narrowed to the requested repositories
+   * and permissions. Tokens are cached until shortly before they expire,
+   * so repeated calls with the same scope don't mint new ones.
    */
   private async createGitHubToken(
-    _options: ApiKeyCreationOptions
+    options: ApiKeyCreationOptions,
+    context?: SecretAccessContext
   ): Promise<ApiKeyCreationResult> {
-    // STUB: Requires GitHub App setup
-    throw new Error(
-      'GitHub token creation requires GitHub App installation. ' +
-      'Please provide GitHub personal access token manually for now.'
-    );
+    const permissions = githubPermissionsFromScopes(options.permissions ?? []);
+    const repositories = [...new Set(options.repositories ?? [])].sort();
 
-    /*
-    // Future implementation (when GitHub App is set up):
-    const { Octokit } = require('@octokit/rest');
-
-    // Get GitHub App credentials from secrets
-    const appId = await this.secretsManager.get('meta/github/app_id');
-    const privateKey = await this.secretsManager.get('meta/github/app_private_key');
-    const installationId = await this.secretsManager.get('meta/github/installation_id');
+    const cacheKey = JSON.stringify([options.projectName, repositories, Object.entries(permissions).sort()]);
+    const cached = this.githubTokens.get(cacheKey);
+    if (cached && !options.forceNew && cached.expiresAt.getTime() - GITHUB_TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return { ...cached, metadata: { ...cached.metadata, cached: true } };
+    }
 
+    const [appId, privateKey, installationId] = await Promise.all([
+      this.secretsManager.retrieve(GITHUB_APP_ID_PATH, context),
+      this.secretsManager.retrieve(GITHUB_APP_PRIVATE_KEY_PATH, context),
+      this.secretsManager.retrieve(GITHUB_INSTALLATION_ID_PATH, context),
+    ]);
     if (!appId || !privateKey || !installationId) {
-      throw new Error('GitHub App not configured in secrets');
+      throw new Error(
+        `GitHub App not configured in secrets (need ${GITHUB_APP_ID_PATH}, ` +
+        `${GITHUB_APP_PRIVATE_KEY_PATH} and ${GITHUB_INSTALLATION_ID_PATH})`
+      );
     }
 
-    const octokit = new Octokit({
-      authStrategy: createAppAuth,
-      auth: {
-        appId,
-        privateKey
-      }
-    });
+    const requestBody: Record<string, unknown> = {};
+    if (repositories.length > 0) {
+      requestBody.repositories = repositories;
+    }
+    if (Object.keys(permissions).length > 0) {
+      requestBody.permissions = permissions;
+    }
 
-    // Create installation token
-    const response = await octokit.apps.createInstallationAccessToken({
-      installation_id: parseInt(installationId),
-      repositories: options.permissions?.includes('all') ? undefined : [],
-      permissions: {
-        contents: 'write',
-        issues: 'write',
-        pull_requests: 'write'
-      }
+    const response = await this.httpClient.request({
+      method: 'POST',
+      url: `${this.githubApiBase}/app/installations/${encodeURIComponent(installationId.trim())}/access_tokens`,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${signGitHubAppJwt(appId.trim(), privateKey)}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'supervisor-service',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      body: JSON.stringify(requestBody),
     });
 
-    return {
-      apiKey: response.data.token,
-      expiresAt: new Date(response.data.expires_at),
+    const body = parseJsonBody(response.body);
+    if (response.status < 200 || response.status >= 300) {
+      const message = body?.message ?? `HTTP ${response.status}`;
+      throw new Error(`GitHub installation token creation failed: ${message}`);
+    }
+    if (typeof body?.token !== 'string' || typeof body?.expires_at !== 'string') {
+      throw new Error('GitHub installation token creation failed: response has no token or expiry');
+    }
+
+    const expiresAt = new Date(body.expires_at);
+    const keyPath = apiKeyPathFor(options);
+    await this.secretsManager.store(keyPath, body.token, {
+      createdBy: CREATED_VIA,
+      description: repositories.length > 0
+        ? `GitHub App installation token for ${repositories.join(', ')}`
+        : 'GitHub App installation token (all repositories)',
+      secretType: 'token',
+      provider: 'github',
+      metadata: creationMetadata(options, { installation_id: installationId.trim() }),
+      expiresAt,
+    }, context);
+
+    const result = {
+      apiKey: body.token,
+      keyPath,
+      expiresAt,
       metadata: {
-        permissions: response.data.permissions
-      }
+        installationId: installationId.trim(),
+        permissions: body.permissions ?? permissions,
+        repositories: Array.isArray(body.repositories)
+          ? body.repositories.map((repo: { full_name?: string; name?: string }) => repo.full_name ?? repo.name)
+          : 'all',
+      },
     };
-    */
+    this.githubTokens.set(cacheKey, result);
+
+    return result;
+  }
+
+  /**
+   * Revoke a key created by createApiKey
+   *
+   * Keys that are already gone (deleted, expired) count as revoked.
+   *
+   * @param metadata - The secret's metadata, as stored by createApiKey
+   * @param value - The key itself (GitHub tokens can only revoke themselves)
+   */
+  async revokeApiKey(
+    metadata: Record<string, string>,
+    value: string,
+    context?: SecretAccessContext
+  ): Promise<void> {
+    const options = creationOptionsFromMetadata(metadata);
+    if (!options) {
+      throw new Error('Only keys created by ApiKeyCreator can be revoked automatically');
+    }
+
+    switch (options.provider) {
+      case 'google':
+      case 'gemini':
+        if (!metadata.key_id || !metadata.client_email || !metadata.gcloud_project_id) {
+          throw new Error('Service account key metadata lacks key_id, client_email or gcloud_project_id');
+        }
+        await this.serviceAccountProvider.deleteKey(metadata.gcloud_project_id, metadata.client_email, metadata.key_id);
+        return;
+
+      case 'stripe': {
+        if (!metadata.key_id) {
+          throw new Error('Stripe key metadata lacks key_id');
+        }
+        const masterKey = await this.secretsManager.retrieve(STRIPE_MASTER_KEY_PATH, context);
+        if (!masterKey) {
+          throw new Error(`Master Stripe API key not found in secrets (${STRIPE_MASTER_KEY_PATH})`);
+        }
+        const response = await this.httpClient.request({
+          method: 'DELETE',
+          url: `${this.stripeApiBase}/v1/restricted_keys/${encodeURIComponent(metadata.key_id)}`,
+          headers: { Authorization: `Bearer ${masterKey}` },
+        });
+        if (response.status !== 404 && (response.status < 200 || response.status >= 300)) {
+          const message = parseJsonBody(response.body)?.error?.message ?? `HTTP ${response.status}`;
+          throw new Error(`Stripe restricted key revocation failed: ${message}`);
+        }
+        return;
+      }
+
+      case 'github': {
+        const response = await this.httpClient.request({
+          method: 'DELETE',
+          url: `${this.githubApiBase}/installation/token`,
+          headers: {
+            Accept: 'application/vnd.github+json',
+            Authorization: `Bearer ${value}`,
+            'User-Agent': 'supervisor-service',
+            'X-GitHub-Api-Version': '2022-11-28',
+          },
+        });
+        // 401: the token already expired or was revoked
+        if (response.status !== 401 && (response.status < 200 || response.status >= 300)) {
+          const message = parseJsonBody(response.body)?.message ?? `HTTP ${response.status}`;
+          throw new Error(`GitHub installation token revocation failed: ${message}`);
+        }
+        for (const [cacheKey, cached] of this.githubTokens) {
+          if (cached.apiKey === value) {
+            this.githubTokens.delete(cacheKey);
+          }
+        }
+        return;
+      }
+
+      default:
+        throw new Error(`Provider '${options.provider}' does not support automatic key revocation`);
+    }
   }
 }
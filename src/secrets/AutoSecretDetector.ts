@@ -1,4 +1,7 @@
+import type pg from 'pg';
 import { db } from '../db/pool.js';
+import { isPrefixedPattern, scoreSecret } from './secretScoring.js';
+import { redactor } from './SecretRedactor.js';
 
 /**
  * Result of secret detection
@@ -9,6 +12,22 @@ export interface SecretDetection {
   keyPath: string;         // Where to store it (e.g., 'meta/anthropic/api_key')
   description: string;     // Human-readable description
   secretType: string;      // 'api_key', 'token', 'password'
+  confidence: number;      // 0..1, see secretScoring.ts
+  reasons: string[];       // What raised or lowered the confidence
+}
+
+/**
+ * A secret found somewhere inside a larger piece of text
+ */
+export interface SecretMatch {
+  provider: string;
+  secretType: string;
+  value: string;
+  line: number;            // 1-based
+  column: number;          // 1-based
+  keyPath: string;         // Where it would be stored
+  description: string;
+  confidence: number;
 }
 
 /**
@@ -22,6 +41,94 @@ interface DetectionPattern {
   enabled: boolean;
 }
 
+/**
+ * A detection pattern as managed through the pattern API
+ */
+export interface SecretPattern {
+  id: number;
+  provider: string;
+  pattern: string;          // Anchored regex, e.g. ^sk_live_[a-zA-Z0-9]{24,}$
+  secretType: string;
+  keyPathTemplate: string;  // May contain {project}
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SecretPatternInput {
+  provider: string;
+  pattern: string;
+  secretType: string;
+  keyPathTemplate: string;
+  enabled?: boolean;
+}
+
+/**
+ * Result of testing a candidate string against the patterns
+ */
+export interface PatternTestResult {
+  matches: Array<{ provider: string; secretType: string; confidence: number }>;
+  detection: SecretDetection | null;   // What detectSecret() would return
+}
+
+interface SecretPatternRow extends DetectionPattern {
+  id: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const PATTERNS_CHANGED_CHANNEL = 'secret_detection_patterns_changed';
+
+// Delay before re-establishing a lost LISTEN, doubling after each failure up to the max
+const LISTEN_RETRY_MIN_MS = 1000;
+const LISTEN_RETRY_MAX_MS = 60000;
+
+/**
+ * Check a pattern before it is saved
+ *
+ * @returns Problems found (empty when valid)
+ */
+export function validateSecretPattern(input: SecretPatternInput): string[] {
+  const errors: string[] = [];
+
+  if (!/^[a-z0-9_]+$/.test(input.provider)) {
+    errors.push('provider must be lowercase letters, numbers and underscores');
+  }
+
+  if (!/^[a-z_]+$/.test(input.secretType)) {
+    errors.push('secretType must be lowercase letters and underscores (e.g. api_key, token)');
+  }
+
+  if (!/^(meta|project\/\{project\})(\/[a-z0-9_-]+)+$/.test(input.keyPathTemplate)) {
+    errors.push('keyPathTemplate must start with meta/ or project/{project}/ and use lowercase path segments');
+  }
+
+  if (input.pattern.length > 500) {
+    errors.push('pattern is longer than 500 characters');
+  }
+  if (!input.pattern.startsWith('^') || !/(?<!\\)\$$/.test(input.pattern)) {
+    errors.push('pattern must be anchored with ^ and $ (it is matched against a whole value)');
+  }
+
+  let regex: RegExp | null = null;
+  try {
+    regex = new RegExp(input.pattern);
+  } catch (error) {
+    errors.push(`pattern is not a valid regex: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (regex) {
+    if (regex.test('')) {
+      errors.push('pattern matches an empty string');
+    }
+    if (regex.test('a b') || regex.test('hello world')) {
+      errors.push('pattern matches ordinary text');
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Detection context (helps with ambiguous secrets)
  */
@@ -31,15 +138,42 @@ export interface DetectionContext {
   conversationHistory?: string[];  // Recent messages
 }
 
+export interface AutoSecretDetectorOptions {
+  /**
+   * Minimum confidence for shouldAutoStore() (default: 0.7)
+   */
+  autoStoreThreshold?: number;
+}
+
+const DEFAULT_AUTO_STORE_THRESHOLD = 0.7;
+
 /**
  * Automatically detects secrets in user messages
  *
  * Uses database-driven patterns to identify API keys, tokens, and passwords.
  * Automatically determines appropriate storage location based on secret type.
+ * Every detection carries a confidence score so callers only act on
+ * likely secrets.
  */
 export class AutoSecretDetector {
   private patterns: DetectionPattern[] = [];
   private patternsLoaded = false;
+  private autoStoreThreshold: number;
+
+  constructor(options?: AutoSecretDetectorOptions) {
+    this.autoStoreThreshold = options?.autoStoreThreshold ?? DEFAULT_AUTO_STORE_THRESHOLD;
+  }
+
+  /**
+   * Whether a detection is confident enough to store without asking
+   */
+  shouldAutoStore(detection: SecretDetection, threshold = this.autoStoreThreshold): boolean {
+    return detection.confidence >= threshold;
+  }
+
+  getAutoStoreThreshold(): number {
+    return this.autoStoreThreshold;
+  }
 
   /**
    * Load detection patterns from database
@@ -54,11 +188,27 @@ export class AutoSecretDetector {
 
     this.patterns = result.rows;
     this.patternsLoaded = true;
+
+    // Keep log and tool-output redaction in step with detection
+    redactor.setPatterns(this.patterns.flatMap((pattern) => {
+      try {
+        return [{
+          provider: pattern.provider,
+          regex: this.toScanRegex(pattern.pattern),
+          generic: !isPrefixedPattern(pattern.pattern),
+        }];
+      } catch {
+        return [];
+      }
+    }));
   }
 
   /**
    * Detect if string is likely a secret
    *
+   * Pattern matches, secrets embedded in the message and context-based
+   * guesses are all scored; the most confident candidate wins.
+   *
    * @param value - The string to test (potential secret)
    * @param context - Additional context to help with detection
    * @returns SecretDetection if detected, null otherwise
@@ -75,18 +225,23 @@ export class AutoSecretDetector {
     // Trim whitespace
     const trimmedValue = value.trim();
 
-    // Test against all patterns
+    const candidates: SecretDetection[] = [];
+
+    // Test against all patterns (a generic one may match alongside a specific one)
     for (const pattern of this.patterns) {
       try {
         const regex = new RegExp(pattern.pattern);
         if (regex.test(trimmedValue)) {
-          return {
+          const score = this.scorePattern(pattern, trimmedValue, context);
+          candidates.push({
             provider: pattern.provider,
             value: trimmedValue,
             keyPath: this.resolveKeyPath(pattern.key_path_template, context),
             description: this.generateDescription(pattern.provider, context),
-            secretType: pattern.secret_type
-          };
+            secretType: pattern.secret_type,
+            confidence: score.confidence,
+            reasons: score.reasons
+          });
         }
       } catch (error) {
         console.error(`Invalid regex pattern for ${pattern.provider}:`, error);
@@ -94,73 +249,188 @@ export class AutoSecretDetector {
       }
     }
 
-    // If no pattern match, try context-based detection
-    if (context?.question) {
-      return this.detectFromContext(trimmedValue, context);
+    // The message may contain a key inside a sentence ("my key is sk-...")
+    if (candidates.length === 0) {
+      for (const match of await this.scanText(trimmedValue, context)) {
+        const pattern = this.patterns.find((p) => p.provider === match.provider)!;
+        const score = this.scorePattern(pattern, match.value, context);
+        candidates.push({
+          provider: match.provider,
+          value: match.value,
+          keyPath: match.keyPath,
+          description: match.description,
+          secretType: match.secretType,
+          confidence: score.confidence,
+          reasons: score.reasons
+        });
+      }
+    }
+
+    // Context-based detection (question asked, recent messages)
+    const fromContext = this.detectFromContext(trimmedValue, context);
+    if (fromContext) {
+      candidates.push(fromContext);
+    }
+
+    // Most confident wins; ties go to the earlier (pattern) candidate
+    return candidates.reduce<SecretDetection | null>(
+      (best, candidate) => (!best || candidate.confidence > best.confidence ? candidate : best),
+      null
+    );
+  }
+
+  /**
+   * Score a value matched by a detection pattern
+   */
+  private scorePattern(pattern: DetectionPattern, value: string, context?: DetectionContext) {
+    return scoreSecret({
+      value,
+      evidence: isPrefixedPattern(pattern.pattern) ? 'prefixed' : 'generic',
+      provider: pattern.provider,
+      question: context?.question,
+      conversationHistory: context?.conversationHistory,
+    });
+  }
+
+  /**
+   * Find every secret occurrence inside arbitrary text (a message, a file)
+   *
+   * Patterns are stored anchored for whole-message detection, so for
+   * scanning the anchors are dropped and replaced by token boundaries:
+   * a match must not be preceded or followed by a key character. Where
+   * patterns overlap, the longest match wins.
+   */
+  async scanText(text: string, context?: DetectionContext): Promise<SecretMatch[]> {
+    if (!this.patternsLoaded) {
+      await this.loadPatterns();
+    }
+
+    const candidates: Array<{ index: number; value: string; pattern: DetectionPattern }> = [];
+
+    for (const pattern of this.patterns) {
+      let regex: RegExp;
+      try {
+        regex = this.toScanRegex(pattern.pattern);
+      } catch (error) {
+        console.error(`Invalid regex pattern for ${pattern.provider}:`, error);
+        continue;
+      }
+
+      for (const match of text.matchAll(regex)) {
+        if (match[0].length > 0) {
+          candidates.push({ index: match.index!, value: match[0], pattern });
+        }
+      }
+    }
+
+    // Longest first, then drop anything overlapping an accepted match
+    candidates.sort((a, b) => b.value.length - a.value.length || a.index - b.index);
+    const accepted: typeof candidates = [];
+    for (const candidate of candidates) {
+      const end = candidate.index + candidate.value.length;
+      const overlaps = accepted.some((a) => candidate.index < a.index + a.value.length && a.index < end);
+      if (!overlaps) {
+        accepted.push(candidate);
+      }
     }
+    accepted.sort((a, b) => a.index - b.index);
+
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      if (text[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+
+    return accepted.map(({ index, value, pattern }) => {
+      let line = lineStarts.length - 1;
+      while (lineStarts[line] > index) {
+        line--;
+      }
 
-    return null;
+      return {
+        provider: pattern.provider,
+        secretType: pattern.secret_type,
+        value,
+        line: line + 1,
+        column: index - lineStarts[line] + 1,
+        keyPath: this.resolveKeyPath(pattern.key_path_template, context),
+        description: this.generateDescription(pattern.provider, context),
+        confidence: this.scorePattern(pattern, value, context).confidence,
+      };
+    });
+  }
+
+  /**
+   * Turn an anchored detection pattern into a global, unanchored one
+   */
+  private toScanRegex(pattern: string): RegExp {
+    const body = pattern.replace(/^\^/, '').replace(/(?<!\\)\$$/, '');
+    // "=" may precede a key (TOKEN=...) but a trailing one means base64 padding
+    return new RegExp(`(?<![A-Za-z0-9_+/-])(?:${body})(?![A-Za-z0-9_+/=-])`, 'g');
   }
 
   /**
-   * Detect secret based on question context
-   * (when pattern doesn't match but question indicates it's a secret)
+   * Detect secret based on conversation context
+   * (when no pattern matches but the question or recent messages
+   * indicate the user is providing a secret)
    */
   private detectFromContext(
     value: string,
-    context: DetectionContext
+    context?: DetectionContext
   ): SecretDetection | null {
-    const question = context.question?.toLowerCase() || '';
+    const question = [context?.question ?? '', ...(context?.conversationHistory ?? []).slice(-3)]
+      .join('\n')
+      .toLowerCase();
+
+    let guess: { provider: string; keyPathTemplate: string; description: string; secretType: string } | null = null;
 
     // API key keywords
     if (question.includes('api key') || question.includes('api-key')) {
-      return {
-        provider: 'unknown_api_key',
-        value,
-        keyPath: this.resolveKeyPath('project/{project}/api_key', context),
-        description: 'API key',
-        secretType: 'api_key'
-      };
+      guess = { provider: 'unknown_api_key', keyPathTemplate: 'project/{project}/api_key', description: 'API key', secretType: 'api_key' };
     }
-
     // Token keywords
-    if (question.includes('token') || question.includes('access token')) {
-      return {
-        provider: 'unknown_token',
-        value,
-        keyPath: this.resolveKeyPath('project/{project}/token', context),
-        description: 'Access token',
-        secretType: 'token'
-      };
+    else if (question.includes('token') || question.includes('access token')) {
+      guess = { provider: 'unknown_token', keyPathTemplate: 'project/{project}/token', description: 'Access token', secretType: 'token' };
     }
-
     // Password keywords
-    if (question.includes('password') || question.includes('secret')) {
-      return {
-        provider: 'unknown_password',
-        value,
-        keyPath: this.resolveKeyPath('project/{project}/password', context),
-        description: 'Password',
-        secretType: 'password'
-      };
+    else if (question.includes('password') || question.includes('secret')) {
+      guess = { provider: 'unknown_password', keyPathTemplate: 'project/{project}/password', description: 'Password', secretType: 'password' };
     }
-
     // Database connection string keywords
-    if (
+    else if (
       question.includes('database') ||
       question.includes('connection string') ||
       question.includes('db url')
     ) {
-      return {
+      guess = {
         provider: 'database_url',
-        value,
-        keyPath: this.resolveKeyPath('project/{project}/database_url', context),
+        keyPathTemplate: 'project/{project}/database_url',
         description: 'Database connection string',
         secretType: 'connection_string'
       };
     }
 
-    return null;
+    if (!guess) {
+      return null;
+    }
+
+    const score = scoreSecret({
+      value,
+      evidence: 'context',
+      question: context?.question,
+      conversationHistory: context?.conversationHistory,
+    });
+
+    return {
+      provider: guess.provider,
+      value,
+      keyPath: this.resolveKeyPath(guess.keyPathTemplate, context),
+      description: guess.description,
+      secretType: guess.secretType,
+      confidence: score.confidence,
+      reasons: score.reasons
+    };
   }
 
   /**
@@ -228,4 +498,260 @@ export class AutoSecretDetector {
   getLoadedPatterns(): DetectionPattern[] {
     return [...this.patterns];
   }
+
+  /**
+   * Reload patterns whenever they change, including from other processes
+   *
+   * Holds a dedicated client LISTENing for the notification sent by the
+   * secret_detection_patterns trigger. If the connection is lost, the
+   * LISTEN is re-established with backoff and the patterns are reloaded,
+   * since changes made in between were never notified.
+   *
+   * @returns A function that stops watching and releases the client
+   */
+  async watchPatternChanges(): Promise<() => Promise<void>> {
+    let client: pg.PoolClient | null = null;
+    let stopped = false;
+    let retryTimer: NodeJS.Timeout | undefined;
+    let retryDelayMs = LISTEN_RETRY_MIN_MS;
+
+    const listen = async (): Promise<void> => {
+      const listener = await db.getClient();
+
+      listener.on('notification', (message) => {
+        if (message.channel === PATTERNS_CHANGED_CHANNEL) {
+          // Reload now rather than on the next detection so redaction stays current
+          this.reloadPatterns().catch((error) => {
+            console.error('[AutoSecretDetector] Failed to reload patterns:', error);
+          });
+        }
+      });
+      listener.on('error', (error) => {
+        console.error('[AutoSecretDetector] Pattern change listener failed:', error);
+        if (client !== listener) {
+          return;
+        }
+        // Passing the error makes the pool discard the broken connection
+        client = null;
+        listener.release(error);
+        scheduleRetry();
+      });
+
+      try {
+        await listener.query(`LISTEN ${PATTERNS_CHANGED_CHANNEL}`);
+      } catch (error) {
+        listener.release(error as Error);
+        throw error;
+      }
+
+      if (stopped) {
+        listener.release();
+        return;
+      }
+      client = listener;
+    };
+
+    const scheduleRetry = () => {
+      if (stopped) {
+        return;
+      }
+      retryTimer = setTimeout(async () => {
+        try {
+          await listen();
+        } catch (error) {
+          console.error('[AutoSecretDetector] Failed to re-establish pattern change listener:', error);
+          retryDelayMs = Math.min(retryDelayMs * 2, LISTEN_RETRY_MAX_MS);
+          scheduleRetry();
+          return;
+        }
+
+        retryDelayMs = LISTEN_RETRY_MIN_MS;
+        this.reloadPatterns().catch((error) => {
+          console.error('[AutoSecretDetector] Failed to reload patterns:', error);
+        });
+      }, retryDelayMs);
+      retryTimer.unref();
+    };
+
+    await listen();
+
+    return async () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      const current = client;
+      client = null;
+      if (current) {
+        await current.query(`UNLISTEN ${PATTERNS_CHANGED_CHANNEL}`).catch(() => undefined);
+        current.release();
+      }
+    };
+  }
+
+  /**
+   * List stored patterns (disabled ones too, unless excluded)
+   */
+  async listPatterns(includeDisabled = true): Promise<SecretPattern[]> {
+    const result = await db.query<SecretPatternRow>(
+      `SELECT * FROM secret_detection_patterns
+       ${includeDisabled ? '' : 'WHERE enabled = true'}
+       ORDER BY provider`
+    );
+
+    return result.rows.map((row) => this.toSecretPattern(row));
+  }
+
+  /**
+   * Add a pattern for a new provider
+   *
+   * @throws Error if the pattern is invalid or the provider already has one
+   */
+  async addPattern(input: SecretPatternInput): Promise<SecretPattern> {
+    this.assertValidPattern(input);
+
+    try {
+      const result = await db.query<SecretPatternRow>(
+        `INSERT INTO secret_detection_patterns (provider, pattern, secret_type, key_path_template, enabled)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [input.provider, input.pattern, input.secretType, input.keyPathTemplate, input.enabled ?? true]
+      );
+
+      await this.reloadPatterns();
+      return this.toSecretPattern(result.rows[0]);
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        throw new Error(`A pattern for provider ${input.provider} already exists; update it instead`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update an existing pattern
+   *
+   * @returns The updated pattern, or null if the provider has none
+   * @throws Error if the resulting pattern is invalid
+   */
+  async updatePattern(
+    provider: string,
+    changes: Partial<Omit<SecretPatternInput, 'provider'>>
+  ): Promise<SecretPattern | null> {
+    const existing = await db.query<SecretPatternRow>(
+      `SELECT * FROM secret_detection_patterns WHERE provider = $1`,
+      [provider]
+    );
+    if (existing.rows.length === 0) {
+      return null;
+    }
+
+    const row = existing.rows[0];
+    const merged: SecretPatternInput = {
+      provider,
+      pattern: changes.pattern ?? row.pattern,
+      secretType: changes.secretType ?? row.secret_type,
+      keyPathTemplate: changes.keyPathTemplate ?? row.key_path_template,
+      enabled: changes.enabled ?? row.enabled,
+    };
+    this.assertValidPattern(merged);
+
+    const result = await db.query<SecretPatternRow>(
+      `UPDATE secret_detection_patterns
+       SET pattern = $2, secret_type = $3, key_path_template = $4, enabled = $5, updated_at = NOW()
+       WHERE provider = $1
+       RETURNING *`,
+      [provider, merged.pattern, merged.secretType, merged.keyPathTemplate, merged.enabled]
+    );
+
+    await this.reloadPatterns();
+    return result.rows.length > 0 ? this.toSecretPattern(result.rows[0]) : null;
+  }
+
+  /**
+   * Enable or disable a pattern without changing it
+   */
+  async setPatternEnabled(provider: string, enabled: boolean): Promise<SecretPattern | null> {
+    return this.updatePattern(provider, { enabled });
+  }
+
+  /**
+   * Test a candidate string
+   *
+   * With a pattern, checks only that (unsaved) pattern. Without one,
+   * reports every enabled pattern that matches and what detectSecret()
+   * would decide.
+   */
+  async testPatterns(
+    candidate: string,
+    options?: { pattern?: SecretPatternInput; context?: DetectionContext }
+  ): Promise<PatternTestResult> {
+    const value = candidate.trim();
+
+    if (options?.pattern) {
+      this.assertValidPattern(options.pattern);
+      const draft: DetectionPattern = {
+        provider: options.pattern.provider,
+        pattern: options.pattern.pattern,
+        secret_type: options.pattern.secretType,
+        key_path_template: options.pattern.keyPathTemplate,
+        enabled: true,
+      };
+
+      const matched = new RegExp(draft.pattern).test(value);
+      const score = matched ? this.scorePattern(draft, value, options.context) : null;
+      return {
+        matches: score ? [{ provider: draft.provider, secretType: draft.secret_type, confidence: score.confidence }] : [],
+        detection: score
+          ? {
+              provider: draft.provider,
+              value,
+              keyPath: this.resolveKeyPath(draft.key_path_template, options.context),
+              description: this.generateDescription(draft.provider, options.context),
+              secretType: draft.secret_type,
+              confidence: score.confidence,
+              reasons: score.reasons
+            }
+          : null,
+      };
+    }
+
+    if (!this.patternsLoaded) {
+      await this.loadPatterns();
+    }
+
+    const matches = this.patterns
+      .filter((pattern) => {
+        try {
+          return new RegExp(pattern.pattern).test(value);
+        } catch {
+          return false;
+        }
+      })
+      .map((pattern) => ({
+        provider: pattern.provider,
+        secretType: pattern.secret_type,
+        confidence: this.scorePattern(pattern, value, options?.context).confidence,
+      }));
+
+    return { matches, detection: await this.detectSecret(value, options?.context) };
+  }
+
+  private assertValidPattern(input: SecretPatternInput): void {
+    const errors = validateSecretPattern(input);
+    if (errors.length > 0) {
+      throw new Error(`Invalid pattern for ${input.provider}: ${errors.join('; ')}`);
+    }
+  }
+
+  private toSecretPattern(row: SecretPatternRow): SecretPattern {
+    return {
+      id: row.id,
+      provider: row.provider,
+      pattern: row.pattern,
+      secretType: row.secret_type,
+      keyPathTemplate: row.key_path_template,
+      enabled: row.enabled,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
 }
@@ -0,0 +1,551 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { SecretsKeyring } from './SecretsKeyring.js';
+import {
+  SecretAccessEntry,
+  SecretAccessRecord,
+  SecretAuditFilter,
+  SecretAuditStore,
+  DIRECT_ACCESS,
+} from './SecretAuditLog.js';
+import {
+  Secret,
+  SecretListFilter,
+  SecretMetadataUpdate,
+  SecretVersion,
+  SecretWrite,
+  SecretsBackend,
+  StoredSecret,
+} from './SecretsBackend.js';
+
+/**
+ * On-disk shape of a version (dates as ISO strings, values base64)
+ */
+interface VaultVersion {
+  version: number;
+  encryptedValue: string;
+  createdAt: string;
+  createdBy?: string;
+  changeType: 'store' | 'rollback';
+  rolledBackFrom?: number;
+}
+
+interface VaultSecret {
+  id: number;
+  keyPath: string;
+  encryptedValue: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  description?: string;
+  secretType?: string;
+  provider?: string;
+  metadata?: Record<string, string>;
+  currentVersion: number;
+  expiresAt?: string;
+  rotateAfter?: string;
+  versions: VaultVersion[];
+}
+
+interface VaultData {
+  format: 1;
+  nextId: number;
+  secrets: Record<string, VaultSecret>;
+}
+
+const LOCK_RETRY_MS = 50;
+const STALE_LOCK_MS = 30000;
+const LOCK_TIMEOUT_MS = 60000;  // Longer than STALE_LOCK_MS, so a waiter outlives a crashed writer's lock
+
+/**
+ * Secrets stored in a single encrypted file, for machines without Postgres
+ *
+ * The whole vault (key paths and metadata included) is serialized to JSON
+ * and encrypted with the keyring's active key, using the same AES-256-GCM
+ * envelope as individual values. Values inside are additionally encrypted
+ * one by one, exactly as in the database, so versions and rollback behave
+ * identically.
+ *
+ * Every write re-reads the file under a lock file, applies the change and
+ * atomically replaces the vault, so several MCP server processes can share
+ * one vault. Values still on a retired key are re-encrypted on every write.
+ *
+ * The access log is appended to a sibling "<vault>.audit.jsonl" file.
+ */
+export class FileSecretsBackend implements SecretsBackend {
+  readonly name = 'file' as const;
+  readonly auditLog: SecretAuditStore;
+  private vaultPath: string;
+  private lockPath: string;
+  private keyring: SecretsKeyring;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(vaultPath: string, keyring: SecretsKeyring) {
+    this.vaultPath = path.resolve(vaultPath);
+    this.lockPath = `${this.vaultPath}.lock`;
+    this.keyring = keyring;
+    this.auditLog = new FileSecretAuditLog(`${this.vaultPath}.audit.jsonl`);
+  }
+
+  getVaultPath(): string {
+    return this.vaultPath;
+  }
+
+  async upsertMany(writes: SecretWrite[]): Promise<Secret[]> {
+    return this.mutate((data) => {
+      const now = new Date().toISOString();
+
+      return writes.map((write) => {
+        const encryptedValue = write.encryptedValue.toString('base64');
+        const existing = data.secrets[write.keyPath];
+        const version = existing ? existing.currentVersion + 1 : 1;
+
+        const secret: VaultSecret = {
+          id: existing?.id ?? data.nextId++,
+          keyPath: write.keyPath,
+          encryptedValue,
+          createdAt: existing?.createdAt ?? now,
+          updatedAt: now,
+          createdBy: write.createdBy,
+          description: write.description,
+          secretType: write.secretType,
+          provider: write.provider,
+          metadata: write.metadata,
+          currentVersion: version,
+          expiresAt: write.expiresAt?.toISOString(),
+          rotateAfter: write.rotateAfter?.toISOString(),
+          versions: [
+            ...(existing?.versions ?? []),
+            { version, encryptedValue, createdAt: now, createdBy: write.createdBy, changeType: 'store' },
+          ],
+        };
+
+        data.secrets[write.keyPath] = secret;
+        return this.toSecret(secret);
+      });
+    });
+  }
+
+  async get(keyPath: string): Promise<StoredSecret | null> {
+    const data = await this.load();
+    const secret = data.secrets[keyPath];
+    return secret ? this.toStoredSecret(secret) : null;
+  }
+
+  async list(filter?: SecretListFilter): Promise<Secret[]> {
+    const data = await this.load();
+
+    return this.sorted(data)
+      .filter((s) => !filter?.provider || s.provider === filter.provider)
+      .filter((s) => !filter?.secretType || s.secretType === filter.secretType)
+      .filter((s) => !filter?.keyPathPrefix || s.keyPath.startsWith(filter.keyPathPrefix))
+      .map((s) => this.toSecret(s));
+  }
+
+  async listWithValues(keyPathPrefix: string): Promise<StoredSecret[]> {
+    const data = await this.load();
+
+    return this.sorted(data)
+      .filter((s) => s.keyPath.startsWith(keyPathPrefix))
+      .map((s) => this.toStoredSecret(s));
+  }
+
+  async deleteMany(keyPaths: string[]): Promise<string[]> {
+    return this.mutate((data) => {
+      const deleted = keyPaths.filter((keyPath) => keyPath in data.secrets);
+      for (const keyPath of deleted) {
+        delete data.secrets[keyPath];
+      }
+      return deleted;
+    });
+  }
+
+  async updateMetadata(keyPath: string, metadata: SecretMetadataUpdate): Promise<Secret | null> {
+    const hasUpdates = Object.values(metadata).some((value) => value !== undefined);
+    if (!hasUpdates) {
+      return null;
+    }
+
+    return this.mutate((data) => {
+      const secret = data.secrets[keyPath];
+      if (!secret) {
+        return null;
+      }
+
+      if (metadata.description !== undefined) {
+        secret.description = metadata.description;
+      }
+      if (metadata.secretType !== undefined) {
+        secret.secretType = metadata.secretType;
+      }
+      if (metadata.provider !== undefined) {
+        secret.provider = metadata.provider;
+      }
+      if (metadata.expiresAt !== undefined) {
+        secret.expiresAt = metadata.expiresAt?.toISOString();
+      }
+      if (metadata.rotateAfter !== undefined) {
+        secret.rotateAfter = metadata.rotateAfter?.toISOString();
+      }
+      if (metadata.metadata !== undefined) {
+        secret.metadata = metadata.metadata ?? undefined;
+      }
+      secret.updatedAt = new Date().toISOString();
+
+      return this.toSecret(secret);
+    });
+  }
+
+  async listVersions(keyPath: string): Promise<SecretVersion[]> {
+    const data = await this.load();
+    const secret = data.secrets[keyPath];
+    if (!secret) {
+      return [];
+    }
+
+    return [...secret.versions]
+      .sort((a, b) => b.version - a.version)
+      .map((v) => ({
+        version: v.version,
+        createdAt: new Date(v.createdAt),
+        createdBy: v.createdBy,
+        changeType: v.changeType,
+        rolledBackFrom: v.rolledBackFrom,
+        isCurrent: v.version === secret.currentVersion,
+      }));
+  }
+
+  async getVersion(keyPath: string, version: number): Promise<Buffer | null> {
+    const data = await this.load();
+    const found = data.secrets[keyPath]?.versions.find((v) => v.version === version);
+    return found ? Buffer.from(found.encryptedValue, 'base64') : null;
+  }
+
+  async rollback(keyPath: string, version: number, createdBy?: string): Promise<Secret | null> {
+    return this.mutate((data) => {
+      const secret = data.secrets[keyPath];
+      const target = secret?.versions.find((v) => v.version === version);
+      if (!secret || !target) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      secret.currentVersion++;
+      secret.encryptedValue = target.encryptedValue;
+      secret.updatedAt = now;
+      secret.versions.push({
+        version: secret.currentVersion,
+        encryptedValue: target.encryptedValue,
+        createdAt: now,
+        createdBy,
+        changeType: 'rollback',
+        rolledBackFrom: version,
+      });
+
+      return this.toSecret(secret);
+    });
+  }
+
+  async listDueBefore(cutoff: Date): Promise<Secret[]> {
+    const data = await this.load();
+    const dueAt = (s: VaultSecret) => Math.min(
+      s.expiresAt ? Date.parse(s.expiresAt) : Infinity,
+      s.rotateAfter ? Date.parse(s.rotateAfter) : Infinity
+    );
+
+    return this.sorted(data)
+      .filter((s) => dueAt(s) <= cutoff.getTime())
+      .sort((a, b) => dueAt(a) - dueAt(b))
+      .map((s) => this.toSecret(s));
+  }
+
+  async movePrefix(
+    fromPrefix: string,
+    toPrefix: string,
+    overwrite: boolean
+  ): Promise<Array<{ from: string; to: string }>> {
+    return this.mutate((data) => {
+      const moves = this.sorted(data)
+        .filter((s) => s.keyPath.startsWith(fromPrefix))
+        .map((s) => ({ from: s.keyPath, to: toPrefix + s.keyPath.substring(fromPrefix.length) }));
+
+      const conflicts = moves.filter((m) => m.to in data.secrets).map((m) => m.to);
+      if (conflicts.length > 0 && !overwrite) {
+        throw new Error(`Target key paths already exist: ${conflicts.join(', ')}`);
+      }
+
+      const now = new Date().toISOString();
+      for (const { from, to } of moves) {
+        data.secrets[to] = { ...data.secrets[from], keyPath: to, updatedAt: now };
+        delete data.secrets[from];
+      }
+
+      return moves;
+    });
+  }
+
+  /**
+   * Rewrite the vault so every value uses the keyring's active key
+   *
+   * @returns Number of current and historical values that were re-encrypted
+   */
+  async reencryptAll(): Promise<number> {
+    return this.mutate((data) => this.reencryptValues(data));
+  }
+
+  private toSecret(secret: VaultSecret): Secret {
+    return {
+      id: secret.id,
+      keyPath: secret.keyPath,
+      createdAt: new Date(secret.createdAt),
+      updatedAt: new Date(secret.updatedAt),
+      createdBy: secret.createdBy,
+      description: secret.description,
+      secretType: secret.secretType,
+      provider: secret.provider,
+      metadata: secret.metadata,
+      currentVersion: secret.currentVersion,
+      expiresAt: secret.expiresAt ? new Date(secret.expiresAt) : undefined,
+      rotateAfter: secret.rotateAfter ? new Date(secret.rotateAfter) : undefined,
+    };
+  }
+
+  private toStoredSecret(secret: VaultSecret): StoredSecret {
+    return { ...this.toSecret(secret), encryptedValue: Buffer.from(secret.encryptedValue, 'base64') };
+  }
+
+  private sorted(data: VaultData): VaultSecret[] {
+    return Object.values(data.secrets).sort((a, b) => a.keyPath.localeCompare(b.keyPath));
+  }
+
+  /**
+   * Read and decrypt the vault (an empty vault if the file doesn't exist yet)
+   */
+  private async load(): Promise<VaultData> {
+    let encrypted: Buffer;
+    try {
+      encrypted = await fs.readFile(this.vaultPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { format: 1, nextId: 1, secrets: {} };
+      }
+      throw error;
+    }
+
+    let data: VaultData;
+    try {
+      data = JSON.parse(this.keyring.decrypt(encrypted));
+    } catch (error) {
+      throw new Error(
+        `Failed to open secrets vault ${this.vaultPath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (data.format !== 1) {
+      throw new Error(`Unsupported secrets vault format ${data.format} in ${this.vaultPath}`);
+    }
+    return data;
+  }
+
+  /**
+   * Apply a change to the vault under the lock and write it back
+   *
+   * Changes are all-or-nothing: if fn throws, nothing is written.
+   */
+  private async mutate<T>(fn: (data: VaultData) => T): Promise<T> {
+    // Serialize writers in this process; the lock file covers other processes
+    const run = this.queue.then(async () => {
+      const owner = await this.acquireLock();
+      try {
+        const data = await this.load();
+        const result = fn(data);
+        this.reencryptValues(data);
+        await this.save(data);
+        return result;
+      } finally {
+        await this.releaseLock(owner);
+      }
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private reencryptValues(data: VaultData): number {
+    let count = 0;
+    const reencrypt = (value: string): string => {
+      const buffer = Buffer.from(value, 'base64');
+      if (!this.keyring.needsReencryption(buffer)) {
+        return value;
+      }
+      count++;
+      return this.keyring.reencrypt(buffer).toString('base64');
+    };
+
+    for (const secret of Object.values(data.secrets)) {
+      secret.encryptedValue = reencrypt(secret.encryptedValue);
+      for (const version of secret.versions) {
+        version.encryptedValue = reencrypt(version.encryptedValue);
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Encrypt and atomically replace the vault file
+   */
+  private async save(data: VaultData): Promise<void> {
+    const tempPath = `${this.vaultPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, this.keyring.encrypt(JSON.stringify(data)), { mode: 0o600 });
+    await fs.rename(tempPath, this.vaultPath);
+  }
+
+  /**
+   * Create the lock file, waiting for other writers and clearing stale locks
+   *
+   * @returns The token written into the lock file, identifying this holder
+   */
+  private async acquireLock(): Promise<string> {
+    await fs.mkdir(path.dirname(this.vaultPath), { recursive: true, mode: 0o700 });
+    const owner = `${process.pid}:${crypto.randomUUID()}`;
+    const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+    while (true) {
+      try {
+        await fs.writeFile(this.lockPath, owner, { flag: 'wx', mode: 0o600 });
+        return owner;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      if (await this.clearStaleLock()) {
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for secrets vault lock ${this.lockPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Remove the lock file left behind by a writer that crashed
+   *
+   * The lock is first renamed aside, which only one waiter can do, and is
+   * checked for staleness there: if another waiter had already replaced it
+   * with a fresh lock, that lock is put back instead.
+   *
+   * @returns true if the lock may have been freed and is worth retrying
+   */
+  private async clearStaleLock(): Promise<boolean> {
+    const stat = await fs.stat(this.lockPath).catch(() => null);
+    if (!stat) {
+      return true;
+    }
+    if (Date.now() - stat.mtimeMs <= STALE_LOCK_MS) {
+      return false;
+    }
+
+    const asidePath = `${this.lockPath}.${process.pid}.${crypto.randomUUID()}.stale`;
+    try {
+      await fs.rename(this.lockPath, asidePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return true;
+      }
+      throw error;
+    }
+
+    try {
+      const moved = await fs.stat(asidePath);
+      if (Date.now() - moved.mtimeMs <= STALE_LOCK_MS) {
+        // Fails if yet another writer has locked meanwhile, leaving its lock in place
+        await fs.link(asidePath, this.lockPath).catch(() => undefined);
+      }
+    } finally {
+      await fs.rm(asidePath, { force: true });
+    }
+    return true;
+  }
+
+  /**
+   * Remove the lock file, unless it has since been taken over by another writer
+   */
+  private async releaseLock(owner: string): Promise<void> {
+    const current = await fs.readFile(this.lockPath, 'utf-8').catch(() => null);
+    if (current === owner) {
+      await fs.rm(this.lockPath, { force: true });
+    }
+  }
+}
+
+/**
+ * Access log kept as JSON lines next to the vault (no values are logged)
+ */
+class FileSecretAuditLog implements SecretAuditStore {
+  private logPath: string;
+
+  constructor(logPath: string) {
+    this.logPath = logPath;
+  }
+
+  async record(entry: SecretAccessRecord): Promise<void> {
+    const context = entry.context ?? DIRECT_ACCESS;
+
+    try {
+      await fs.mkdir(path.dirname(this.logPath), { recursive: true, mode: 0o700 });
+      await fs.appendFile(this.logPath, JSON.stringify({
+        accessedAt: new Date().toISOString(),
+        callerProject: context.project,
+        transport: context.transport,
+        toolName: context.toolName,
+        operation: entry.operation,
+        keyPath: entry.keyPath,
+        outcome: entry.outcome,
+        errorMessage: entry.errorMessage,
+      }) + '\n', { mode: 0o600 });
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${entry.operation} on ${entry.keyPath ?? '(all)'}:`, error);
+    }
+  }
+
+  async query(filter?: SecretAuditFilter): Promise<SecretAccessEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.logPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // A line cut short by a crash mid-append must not break every later query, so skip it
+    const entries: SecretAccessEntry[] = content
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .flatMap((line, index) => {
+        try {
+          const raw = JSON.parse(line);
+          return [{ ...raw, id: index + 1, accessedAt: new Date(raw.accessedAt) }];
+        } catch {
+          return [];
+        }
+      });
+
+    return entries
+      .filter((e) => !filter?.keyPath || e.keyPath === filter.keyPath)
+      .filter((e) => !filter?.keyPathPrefix || (e.keyPath?.startsWith(filter.keyPathPrefix) ?? false))
+      .filter((e) => !filter?.project || e.callerProject === filter.project)
+      .filter((e) => !filter?.operation || e.operation === filter.operation)
+      .filter((e) => !filter?.outcome || e.outcome === filter.outcome)
+      .filter((e) => !filter?.since || e.accessedAt >= filter.since)
+      .filter((e) => !filter?.until || e.accessedAt <= filter.until)
+      .reverse()
+      .slice(0, filter?.limit ?? 100);
+  }
+}
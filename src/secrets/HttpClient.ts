@@ -0,0 +1,56 @@
+/**
+ * Minimal HTTP request, enough for the provider APIs ApiKeyCreator calls
+ */
+export interface HttpRequest {
+  method: 'GET' | 'POST' | 'DELETE';
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export interface HttpResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Transport used for provider API calls
+ *
+ * Injected so tests can point ApiKeyCreator at a local fake server or
+ * replace the network entirely.
+ */
+export interface HttpClient {
+  request(request: HttpRequest): Promise<HttpResponse>;
+}
+
+/**
+ * HttpClient backed by the global fetch (Node 20+)
+ */
+export class FetchHttpClient implements HttpClient {
+  private timeoutMs: number;
+
+  constructor(timeoutMs = 30000) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  async request(request: HttpRequest): Promise<HttpResponse> {
+    const response = await fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = value;
+    });
+
+    return {
+      status: response.status,
+      headers,
+      body: await response.text(),
+    };
+  }
+}
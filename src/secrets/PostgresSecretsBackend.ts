@@ -0,0 +1,358 @@
+import db, { Queryable } from '../db/pool.js';
+import { SecretAuditLog } from './SecretAuditLog.js';
+import {
+  Secret,
+  SecretListFilter,
+  SecretMetadataUpdate,
+  SecretVersion,
+  SecretWrite,
+  SecretsBackend,
+  StoredSecret,
+} from './SecretsBackend.js';
+
+/**
+ * Row shape of the secrets table (metadata columns only)
+ */
+interface SecretRow {
+  id: number;
+  key_path: string;
+  created_at: Date;
+  updated_at: Date;
+  created_by: string | null;
+  description: string | null;
+  secret_type: string | null;
+  provider: string | null;
+  metadata: Record<string, string> | null;
+  current_version: number;
+  expires_at: Date | null;
+  rotate_after: Date | null;
+}
+
+const SECRET_COLUMNS =
+  'id, key_path, created_at, updated_at, created_by, description, secret_type, provider, metadata, ' +
+  'current_version, expires_at, rotate_after';
+
+/**
+ * Secrets stored in the shared Postgres database (secrets, secret_versions
+ * and secret_access_log tables)
+ */
+export class PostgresSecretsBackend implements SecretsBackend {
+  readonly name = 'postgres' as const;
+  readonly auditLog = new SecretAuditLog();
+
+  /**
+   * Map a secrets row to the public Secret shape
+   */
+  private toSecret(row: SecretRow): Secret {
+    return {
+      id: row.id,
+      keyPath: row.key_path,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      createdBy: row.created_by ?? undefined,
+      description: row.description ?? undefined,
+      secretType: row.secret_type ?? undefined,
+      provider: row.provider ?? undefined,
+      metadata: row.metadata ?? undefined,
+      currentVersion: row.current_version,
+      expiresAt: row.expires_at ?? undefined,
+      rotateAfter: row.rotate_after ?? undefined,
+    };
+  }
+
+  /**
+   * Store secrets in a single transaction: either every value is written
+   * (with a new version each) or none are
+   */
+  async upsertMany(writes: SecretWrite[]): Promise<Secret[]> {
+    if (writes.length === 1) {
+      // A single upsert is already atomic; skip the dedicated client
+      return [await this.upsert(db, writes[0])];
+    }
+
+    return db.transaction(async (client) => {
+      const results: Secret[] = [];
+      for (const write of writes) {
+        results.push(await this.upsert(client, write));
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Insert or overwrite a secret and append the new version in one statement
+   */
+  private async upsert(client: Queryable, write: SecretWrite): Promise<Secret> {
+    const result = await client.query<SecretRow>(
+      `WITH upserted AS (
+         INSERT INTO secrets (key_path, encrypted_value, created_by, description, secret_type, provider, expires_at, rotate_after, metadata)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (key_path)
+         DO UPDATE SET
+           encrypted_value = EXCLUDED.encrypted_value,
+           updated_at = NOW(),
+           created_by = EXCLUDED.created_by,
+           description = EXCLUDED.description,
+           secret_type = EXCLUDED.secret_type,
+           provider = EXCLUDED.provider,
+           expires_at = EXCLUDED.expires_at,
+           rotate_after = EXCLUDED.rotate_after,
+           metadata = EXCLUDED.metadata,
+           current_version = secrets.current_version + 1
+         RETURNING ${SECRET_COLUMNS}
+       ), versioned AS (
+         INSERT INTO secret_versions (secret_id, version, encrypted_value, created_by, change_type)
+         SELECT id, current_version, $2, $3, 'store' FROM upserted
+       )
+       SELECT ${SECRET_COLUMNS} FROM upserted`,
+      [
+        write.keyPath,
+        write.encryptedValue,
+        write.createdBy,
+        write.description,
+        write.secretType,
+        write.provider,
+        write.expiresAt,
+        write.rotateAfter,
+        write.metadata ? JSON.stringify(write.metadata) : null,
+      ]
+    );
+
+    return this.toSecret(result.rows[0]);
+  }
+
+  async get(keyPath: string): Promise<StoredSecret | null> {
+    const result = await db.query<SecretRow & { encrypted_value: Buffer }>(
+      `SELECT ${SECRET_COLUMNS}, encrypted_value FROM secrets WHERE key_path = $1`,
+      [keyPath]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const row = result.rows[0];
+    return { ...this.toSecret(row), encryptedValue: row.encrypted_value };
+  }
+
+  async list(filter?: SecretListFilter): Promise<Secret[]> {
+    let query = `SELECT ${SECRET_COLUMNS}
+                 FROM secrets
+                 WHERE 1=1`;
+    const params: string[] = [];
+
+    if (filter?.provider) {
+      params.push(filter.provider);
+      query += ` AND provider = $${params.length}`;
+    }
+
+    if (filter?.secretType) {
+      params.push(filter.secretType);
+      query += ` AND secret_type = $${params.length}`;
+    }
+
+    if (filter?.keyPathPrefix) {
+      // Not LIKE: key paths routinely contain "_", which LIKE treats as a wildcard
+      params.push(filter.keyPathPrefix);
+      query += ` AND LEFT(key_path, LENGTH($${params.length})) = $${params.length}`;
+    }
+
+    query += ` ORDER BY key_path`;
+
+    const result = await db.query<SecretRow>(query, params);
+    return result.rows.map((row) => this.toSecret(row));
+  }
+
+  async listWithValues(keyPathPrefix: string): Promise<StoredSecret[]> {
+    const result = await db.query<SecretRow & { encrypted_value: Buffer }>(
+      `SELECT ${SECRET_COLUMNS}, encrypted_value
+       FROM secrets
+       WHERE LEFT(key_path, LENGTH($1)) = $1
+       ORDER BY key_path`,
+      [keyPathPrefix]
+    );
+
+    return result.rows.map((row) => ({ ...this.toSecret(row), encryptedValue: row.encrypted_value }));
+  }
+
+  async deleteMany(keyPaths: string[]): Promise<string[]> {
+    const result = await db.query<{ key_path: string }>(
+      `DELETE FROM secrets WHERE key_path = ANY($1) RETURNING key_path`,
+      [keyPaths]
+    );
+    return result.rows.map((row) => row.key_path);
+  }
+
+  async updateMetadata(keyPath: string, metadata: SecretMetadataUpdate): Promise<Secret | null> {
+    const updates: string[] = [];
+    const params: any[] = [keyPath];
+    let paramIndex = 2;
+
+    if (metadata.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      params.push(metadata.description);
+    }
+
+    if (metadata.secretType !== undefined) {
+      updates.push(`secret_type = $${paramIndex++}`);
+      params.push(metadata.secretType);
+    }
+
+    if (metadata.provider !== undefined) {
+      updates.push(`provider = $${paramIndex++}`);
+      params.push(metadata.provider);
+    }
+
+    if (metadata.expiresAt !== undefined) {
+      updates.push(`expires_at = $${paramIndex++}`);
+      params.push(metadata.expiresAt);
+    }
+
+    if (metadata.rotateAfter !== undefined) {
+      updates.push(`rotate_after = $${paramIndex++}`);
+      params.push(metadata.rotateAfter);
+    }
+
+    if (metadata.metadata !== undefined) {
+      updates.push(`metadata = $${paramIndex++}`);
+      params.push(metadata.metadata ? JSON.stringify(metadata.metadata) : null);
+    }
+
+    if (updates.length === 0) {
+      return null;
+    }
+
+    updates.push(`updated_at = NOW()`);
+
+    const result = await db.query<SecretRow>(
+      `UPDATE secrets
+       SET ${updates.join(', ')}
+       WHERE key_path = $1
+       RETURNING ${SECRET_COLUMNS}`,
+      params
+    );
+
+    return result.rows.length > 0 ? this.toSecret(result.rows[0]) : null;
+  }
+
+  async listVersions(keyPath: string): Promise<SecretVersion[]> {
+    const result = await db.query<{
+      version: number;
+      created_at: Date;
+      created_by: string | null;
+      change_type: 'store' | 'rollback';
+      rolled_back_from: number | null;
+      current_version: number;
+    }>(
+      `SELECT sv.version, sv.created_at, sv.created_by, sv.change_type, sv.rolled_back_from, s.current_version
+       FROM secret_versions sv
+       JOIN secrets s ON s.id = sv.secret_id
+       WHERE s.key_path = $1
+       ORDER BY sv.version DESC`,
+      [keyPath]
+    );
+
+    return result.rows.map((row) => ({
+      version: row.version,
+      createdAt: row.created_at,
+      createdBy: row.created_by ?? undefined,
+      changeType: row.change_type,
+      rolledBackFrom: row.rolled_back_from ?? undefined,
+      isCurrent: row.version === row.current_version,
+    }));
+  }
+
+  async getVersion(keyPath: string, version: number): Promise<Buffer | null> {
+    const result = await db.query<{ encrypted_value: Buffer }>(
+      `SELECT sv.encrypted_value
+       FROM secret_versions sv
+       JOIN secrets s ON s.id = sv.secret_id
+       WHERE s.key_path = $1 AND sv.version = $2`,
+      [keyPath, version]
+    );
+
+    return result.rows.length > 0 ? result.rows[0].encrypted_value : null;
+  }
+
+  async rollback(keyPath: string, version: number, createdBy?: string): Promise<Secret | null> {
+    const result = await db.query<SecretRow>(
+      `WITH target AS (
+         SELECT sv.secret_id, sv.encrypted_value
+         FROM secret_versions sv
+         JOIN secrets s ON s.id = sv.secret_id
+         WHERE s.key_path = $1 AND sv.version = $2
+       ), updated AS (
+         UPDATE secrets s
+         SET encrypted_value = target.encrypted_value,
+             current_version = s.current_version + 1,
+             updated_at = NOW()
+         FROM target
+         WHERE s.id = target.secret_id
+         RETURNING s.id, s.key_path, s.created_at, s.updated_at, s.created_by, s.description,
+                   s.secret_type, s.provider, s.metadata, s.current_version, s.expires_at, s.rotate_after,
+                   s.encrypted_value
+       ), versioned AS (
+         INSERT INTO secret_versions (secret_id, version, encrypted_value, created_by, change_type, rolled_back_from)
+         SELECT id, current_version, encrypted_value, $3, 'rollback', $2 FROM updated
+       )
+       SELECT ${SECRET_COLUMNS} FROM updated`,
+      [keyPath, version, createdBy]
+    );
+
+    return result.rows.length > 0 ? this.toSecret(result.rows[0]) : null;
+  }
+
+  async listDueBefore(cutoff: Date): Promise<Secret[]> {
+    const result = await db.query<SecretRow>(
+      `SELECT ${SECRET_COLUMNS}
+       FROM secrets
+       WHERE expires_at <= $1 OR rotate_after <= $1
+       ORDER BY LEAST(COALESCE(expires_at, 'infinity'), COALESCE(rotate_after, 'infinity')), key_path`,
+      [cutoff]
+    );
+
+    return result.rows.map((row) => this.toSecret(row));
+  }
+
+  async movePrefix(
+    fromPrefix: string,
+    toPrefix: string,
+    overwrite: boolean
+  ): Promise<Array<{ from: string; to: string }>> {
+    return db.transaction(async (client) => {
+      // Lock the source rows so the set can't change between check and update
+      const locked = await client.query<{ key_path: string }>(
+        `SELECT key_path FROM secrets WHERE LEFT(key_path, LENGTH($1)) = $1 ORDER BY key_path FOR UPDATE`,
+        [fromPrefix]
+      );
+      const moves = locked.rows.map((row) => ({
+        from: row.key_path,
+        to: toPrefix + row.key_path.substring(fromPrefix.length),
+      }));
+      const targets = moves.map((m) => m.to);
+
+      const conflicts = await client.query<{ key_path: string }>(
+        `SELECT key_path FROM secrets WHERE key_path = ANY($1) ORDER BY key_path FOR UPDATE`,
+        [targets]
+      );
+      if (conflicts.rows.length > 0) {
+        if (!overwrite) {
+          throw new Error(
+            `Target key paths already exist: ${conflicts.rows.map((row) => row.key_path).join(', ')}`
+          );
+        }
+        await client.query(`DELETE FROM secrets WHERE key_path = ANY($1)`, [targets]);
+      }
+
+      await client.query(
+        `UPDATE secrets
+         SET key_path = $2 || SUBSTRING(key_path FROM LENGTH($1) + 1),
+             updated_at = NOW()
+         WHERE LEFT(key_path, LENGTH($1)) = $1`,
+        [fromPrefix, toPrefix]
+      );
+
+      return moves;
+    });
+  }
+}
@@ -0,0 +1,183 @@
+import db from '../db/pool.js';
+
+/**
+ * Who is performing a secrets operation
+ *
+ * MCP servers pass one of these with every call so the audit log can
+ * attribute access to a project scope and tool.
+ */
+export interface SecretAccessContext {
+  project?: string;                      // SSE ?project= param or PROJECT_NAME
+  transport: 'stdio' | 'sse' | 'api';
+  toolName?: string;                     // e.g. 'mcp__meta__retrieve_secret'
+}
+
+export type SecretOperation =
+  | 'store'
+  | 'retrieve'
+  | 'list'
+  | 'delete'
+  | 'update_metadata'
+  | 'list_versions'
+  | 'retrieve_version'
+  | 'rollback'
+  | 'export_env'
+  | 'move';
+
+export type SecretAccessOutcome = 'success' | 'not_found' | 'denied' | 'error';
+
+export interface SecretAccessEntry {
+  id: number;
+  accessedAt: Date;
+  callerProject?: string;
+  transport: 'stdio' | 'sse' | 'api';
+  toolName?: string;
+  operation: SecretOperation;
+  keyPath?: string;
+  outcome: SecretAccessOutcome;
+  errorMessage?: string;
+}
+
+export interface SecretAuditFilter {
+  keyPath?: string;
+  keyPathPrefix?: string;
+  project?: string;
+  operation?: SecretOperation;
+  outcome?: SecretAccessOutcome;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * An access to append to the log
+ */
+export interface SecretAccessRecord {
+  operation: SecretOperation;
+  keyPath?: string;
+  outcome: SecretAccessOutcome;
+  errorMessage?: string;
+  context?: SecretAccessContext;
+}
+
+/**
+ * Where a secrets backend keeps its access log
+ *
+ * record() must never throw: audit failures are logged but never fail
+ * the operation being audited.
+ */
+export interface SecretAuditStore {
+  record(entry: SecretAccessRecord): Promise<void>;
+  query(filter?: SecretAuditFilter): Promise<SecretAccessEntry[]>;
+}
+
+interface SecretAccessRow {
+  id: number;
+  accessed_at: Date;
+  caller_project: string | null;
+  transport: 'stdio' | 'sse' | 'api';
+  tool_name: string | null;
+  operation: SecretOperation;
+  key_path: string | null;
+  outcome: SecretAccessOutcome;
+  error_message: string | null;
+}
+
+/**
+ * Context used when SecretsManager is called directly rather than via MCP
+ */
+export const DIRECT_ACCESS: SecretAccessContext = { transport: 'api' };
+
+/**
+ * Append-only audit trail of secrets operations (secret_access_log)
+ */
+export class SecretAuditLog implements SecretAuditStore {
+  /**
+   * Record a single access
+   *
+   * Audit failures are logged but never fail the operation being audited.
+   */
+  async record(entry: SecretAccessRecord): Promise<void> {
+    const context = entry.context ?? DIRECT_ACCESS;
+
+    try {
+      await db.query(
+        `INSERT INTO secret_access_log (caller_project, transport, tool_name, operation, key_path, outcome, error_message)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          context.project,
+          context.transport,
+          context.toolName,
+          entry.operation,
+          entry.keyPath,
+          entry.outcome,
+          entry.errorMessage,
+        ]
+      );
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${entry.operation} on ${entry.keyPath ?? '(all)'}:`, error);
+    }
+  }
+
+  /**
+   * Query the audit log (newest first)
+   */
+  async query(filter?: SecretAuditFilter): Promise<SecretAccessEntry[]> {
+    let query = `SELECT * FROM secret_access_log WHERE 1=1`;
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (filter?.keyPath) {
+      params.push(filter.keyPath);
+      query += ` AND key_path = $${paramIndex++}`;
+    }
+
+    if (filter?.keyPathPrefix) {
+      // Not LIKE: key paths routinely contain "_", which LIKE treats as a wildcard,
+      // so project/a_b/ would also match another project's project/axb/
+      params.push(filter.keyPathPrefix);
+      query += ` AND LEFT(key_path, LENGTH($${paramIndex})) = $${paramIndex++}`;
+    }
+
+    if (filter?.project) {
+      params.push(filter.project);
+      query += ` AND caller_project = $${paramIndex++}`;
+    }
+
+    if (filter?.operation) {
+      params.push(filter.operation);
+      query += ` AND operation = $${paramIndex++}`;
+    }
+
+    if (filter?.outcome) {
+      params.push(filter.outcome);
+      query += ` AND outcome = $${paramIndex++}`;
+    }
+
+    if (filter?.since) {
+      params.push(filter.since);
+      query += ` AND accessed_at >= $${paramIndex++}`;
+    }
+
+    if (filter?.until) {
+      params.push(filter.until);
+      query += ` AND accessed_at <= $${paramIndex++}`;
+    }
+
+    params.push(filter?.limit ?? 100);
+    query += ` ORDER BY accessed_at DESC, id DESC LIMIT $${paramIndex++}`;
+
+    const result = await db.query<SecretAccessRow>(query, params);
+    return result.rows.map((row) => ({
+      id: row.id,
+      accessedAt: row.accessed_at,
+      callerProject: row.caller_project ?? undefined,
+      transport: row.transport,
+      toolName: row.tool_name ?? undefined,
+      operation: row.operation,
+      keyPath: row.key_path ?? undefined,
+      outcome: row.outcome,
+      errorMessage: row.error_message ?? undefined,
+    }));
+  }
+}
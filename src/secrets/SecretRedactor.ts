@@ -0,0 +1,195 @@
+import util from 'util';
+import { scoreSecret } from './secretScoring.js';
+
+/**
+ * A detection pattern compiled for scanning (see AutoSecretDetector)
+ */
+export interface RedactionPattern {
+  provider: string;
+  regex: RegExp;           // Global, unanchored
+  generic: boolean;        // No provider prefix: only redact confident matches
+}
+
+// Shorter values are too likely to be ordinary words or numbers
+const MIN_KNOWN_VALUE_LENGTH = 8;
+
+// Generic pattern matches below this confidence (e.g. commit SHAs) are left alone
+const GENERIC_MIN_CONFIDENCE = 0.5;
+
+/**
+ * Tools whose whole purpose is to return secret values
+ */
+export const REDACTION_EXEMPT_TOOLS = new Set([
+  'mcp__meta__retrieve_secret',
+  'mcp__meta__export_env',
+]);
+
+/**
+ * Masks secrets in text before it leaves the process
+ *
+ * Two sources of truth:
+ * - known values: the current value of every stored secret (loaded by
+ *   SecretsManager at startup and kept up to date on store, delete, move
+ *   and rollback), plus values with no key path such as old versions
+ * - detection patterns: pushed by AutoSecretDetector when it loads them
+ */
+export class SecretRedactor {
+  private knownValues = new Set<string>();
+  private secretValues = new Map<string, string>();  // key path -> current value
+  private sortedKnownValues: string[] = [];
+  private patterns: RedactionPattern[] = [];
+
+  /**
+   * Remember a value that belongs to no key path (e.g. an old version)
+   */
+  addKnownValue(value: string): void {
+    if (this.knownValues.has(value)) {
+      return;
+    }
+    this.knownValues.add(value);
+    this.sortKnownValues();
+  }
+
+  /**
+   * Remember the current value of a stored secret, replacing its previous one
+   */
+  setSecretValue(keyPath: string, value: string): void {
+    if (this.secretValues.get(keyPath) === value) {
+      return;
+    }
+    this.secretValues.set(keyPath, value);
+    this.sortKnownValues();
+  }
+
+  /**
+   * Replace every stored secret's value at once (startup load)
+   */
+  loadSecretValues(secrets: Array<{ keyPath: string; value: string }>): void {
+    this.secretValues = new Map(secrets.map((secret) => [secret.keyPath, secret.value]));
+    this.sortKnownValues();
+  }
+
+  /**
+   * Stop masking deleted secrets' values (unless another source still knows them)
+   */
+  forgetSecrets(keyPaths: string[]): void {
+    if (keyPaths.filter((keyPath) => this.secretValues.delete(keyPath)).length > 0) {
+      this.sortKnownValues();
+    }
+  }
+
+  /**
+   * Follow secrets to their new key paths
+   */
+  moveSecrets(moves: Array<{ from: string; to: string }>): void {
+    for (const { from, to } of moves) {
+      const value = this.secretValues.get(from);
+      this.secretValues.delete(from);
+      if (value !== undefined) {
+        this.secretValues.set(to, value);
+      }
+    }
+    this.sortKnownValues();
+  }
+
+  private sortKnownValues(): void {
+    const values = new Set<string>();
+    for (const value of [...this.knownValues, ...this.secretValues.values()]) {
+      if (value.length >= MIN_KNOWN_VALUE_LENGTH) {
+        for (const form of escapedForms(value)) {
+          values.add(form);
+        }
+      }
+    }
+    // Longest first, so a value containing another is masked whole
+    this.sortedKnownValues = [...values].sort((a, b) => b.length - a.length);
+  }
+
+  setPatterns(patterns: RedactionPattern[]): void {
+    this.patterns = patterns;
+  }
+
+  /**
+   * Mask every known value and pattern match in a string
+   */
+  redact(text: string): string {
+    let redacted = text;
+
+    for (const value of this.sortedKnownValues) {
+      if (redacted.includes(value)) {
+        redacted = redacted.split(value).join('[REDACTED]');
+      }
+    }
+
+    for (const { provider, regex, generic } of this.patterns) {
+      redacted = redacted.replace(regex, (match) => {
+        if (generic && scoreSecret({ value: match, evidence: 'generic' }).confidence < GENERIC_MIN_CONFIDENCE) {
+          return match;
+        }
+        return `[REDACTED:${provider}]`;
+      });
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact every string inside a JSON-like value (returns a copy)
+   */
+  redactDeep<T>(value: T): T {
+    if (typeof value === 'string') {
+      return this.redact(value) as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactDeep(item)) as T;
+    }
+    if (value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, this.redactDeep(item)])
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Redact an MCP tool result unless the tool exists to return secrets
+   */
+  redactToolResult<T>(toolName: string, result: T): T {
+    return REDACTION_EXEMPT_TOOLS.has(toolName) ? result : this.redactDeep(result);
+  }
+}
+
+/**
+ * A value as it appears raw, inside JSON text (tool results are stringified
+ * before redaction) and inside util.inspect output (console objects)
+ *
+ * PEM keys and anything else with newlines, quotes or backslashes only
+ * appear in the escaped forms there.
+ */
+function escapedForms(value: string): string[] {
+  return [value, JSON.stringify(value).slice(1, -1), util.inspect(value).slice(1, -1)];
+}
+
+// Export singleton instance
+export const redactor = new SecretRedactor();
+
+let consoleRedactionInstalled = false;
+
+/**
+ * Route console.log/info/warn/error/debug through the redactor
+ *
+ * Called once by each entry point (MCP servers, CLI scripts).
+ */
+export function installConsoleRedaction(): void {
+  if (consoleRedactionInstalled) {
+    return;
+  }
+  consoleRedactionInstalled = true;
+
+  for (const method of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(redactor.redact(util.format(...args)));
+    };
+  }
+}
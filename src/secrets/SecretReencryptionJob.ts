@@ -0,0 +1,246 @@
+import db, { Queryable } from '../db/pool.js';
+import { SecretsKeyring } from './SecretsKeyring.js';
+
+export interface ReencryptionProgress {
+  jobId: number;
+  targetKeyId: string;
+  status: 'running' | 'completed' | 'failed';
+  phase: 'secrets' | 'secret_versions' | 'done';
+  rowsScanned: number;
+  secretsReencrypted: number;
+  versionsReencrypted: number;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  errorMessage?: string;
+}
+
+interface JobRow {
+  id: number;
+  target_key_id: string;
+  status: 'running' | 'completed' | 'failed';
+  phase: 'secrets' | 'secret_versions' | 'done';
+  last_processed_id: number;
+  rows_scanned: number;
+  secrets_reencrypted: number;
+  versions_reencrypted: number;
+  started_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  error_message: string | null;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+/**
+ * Re-encrypts every stored secret value with the keyring's active key
+ *
+ * Work happens in small batches, each in its own transaction, and the
+ * cursor is saved in secret_reencryption_jobs after every batch. If the
+ * process dies (or maxBatches is reached) the next run picks up the
+ * unfinished job for the same target key where it left off.
+ *
+ * Covers both the live values in `secrets` and the history in
+ * `secret_versions`. Values already on the active key are skipped. The job
+ * only completes once no value in either table is left on another key.
+ */
+export class SecretReencryptionJob {
+  private keyring: SecretsKeyring;
+
+  constructor(keyring: SecretsKeyring) {
+    this.keyring = keyring;
+  }
+
+  /**
+   * Run (or resume) re-encryption to the active key
+   *
+   * @param options.batchSize - Rows per transaction (default: 100)
+   * @param options.maxBatches - Stop after this many batches; run again to continue
+   * @param options.onProgress - Called after every committed batch
+   */
+  async run(options?: {
+    batchSize?: number;
+    maxBatches?: number;
+    onProgress?: (progress: ReencryptionProgress) => void;
+  }): Promise<ReencryptionProgress> {
+    const batchSize = options?.batchSize ?? DEFAULT_BATCH_SIZE;
+    if (batchSize < 1) {
+      throw new Error('batchSize must be at least 1');
+    }
+
+    let job = await this.findOrCreateJob();
+    let batches = 0;
+
+    while (job.phase !== 'done') {
+      if (options?.maxBatches !== undefined && batches >= options.maxBatches) {
+        break;
+      }
+
+      try {
+        job = await this.processBatch(job.id, batchSize);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        await db.query(
+          `UPDATE secret_reencryption_jobs
+           SET status = 'failed', error_message = $2, updated_at = NOW()
+           WHERE id = $1`,
+          [job.id, message]
+        );
+        throw new Error(`Re-encryption job ${job.id} failed (resume by running again): ${message}`);
+      }
+
+      batches++;
+      options?.onProgress?.(this.toProgress(job));
+    }
+
+    return this.toProgress(job);
+  }
+
+  /**
+   * Get the most recent job, if any
+   */
+  async getLatestJob(): Promise<ReencryptionProgress | null> {
+    const result = await db.query<JobRow>(
+      `SELECT * FROM secret_reencryption_jobs ORDER BY id DESC LIMIT 1`
+    );
+
+    return result.rows.length > 0 ? this.toProgress(result.rows[0]) : null;
+  }
+
+  /**
+   * Resume the unfinished job for the active key, or start a new one
+   */
+  private async findOrCreateJob(): Promise<JobRow> {
+    const existing = await db.query<JobRow>(
+      `UPDATE secret_reencryption_jobs
+       SET status = 'running', error_message = NULL, updated_at = NOW()
+       WHERE id = (
+         SELECT id FROM secret_reencryption_jobs
+         WHERE target_key_id = $1 AND status IN ('running', 'failed')
+         ORDER BY id DESC
+         LIMIT 1
+       )
+       RETURNING *`,
+      [this.keyring.activeKeyId]
+    );
+
+    if (existing.rows.length > 0) {
+      return existing.rows[0];
+    }
+
+    const created = await db.query<JobRow>(
+      `INSERT INTO secret_reencryption_jobs (target_key_id)
+       VALUES ($1)
+       RETURNING *`,
+      [this.keyring.activeKeyId]
+    );
+
+    return created.rows[0];
+  }
+
+  /**
+   * Re-encrypt one batch of the current phase and advance the cursor
+   *
+   * The job row is locked for the duration of the batch, so two runners
+   * working on the same job never process the same rows.
+   */
+  private async processBatch(jobId: number, batchSize: number): Promise<JobRow> {
+    return db.transaction(async (client) => {
+      const jobResult = await client.query<JobRow>(
+        `SELECT * FROM secret_reencryption_jobs WHERE id = $1 FOR UPDATE`,
+        [jobId]
+      );
+      const job = jobResult.rows[0];
+      if (job.phase === 'done') {
+        return job;
+      }
+
+      // Table names come from the fixed phase list, never from input
+      const table = job.phase;
+      const rows = await client.query<{ id: number; encrypted_value: Buffer }>(
+        `SELECT id, encrypted_value FROM ${table}
+         WHERE id > $1
+         ORDER BY id
+         LIMIT $2
+         FOR UPDATE`,
+        [job.last_processed_id, batchSize]
+      );
+
+      let reencrypted = 0;
+      for (const row of rows.rows) {
+        if (!this.keyring.needsReencryption(row.encrypted_value)) {
+          continue;
+        }
+        await client.query(
+          `UPDATE ${table} SET encrypted_value = $2 WHERE id = $1`,
+          [row.id, this.keyring.reencrypt(row.encrypted_value)]
+        );
+        reencrypted++;
+      }
+
+      const lastId = rows.rows.length > 0 ? rows.rows[rows.rows.length - 1].id : job.last_processed_id;
+      const phaseFinished = rows.rows.length < batchSize;
+      let nextPhase: JobRow['phase'] = !phaseFinished ? job.phase : job.phase === 'secrets' ? 'secret_versions' : 'done';
+
+      // A rollback during the run copies an old version (possibly on the old key) back
+      // into secrets behind the cursor; go round again rather than report a finished job
+      if (nextPhase === 'done' && await this.hasValuesOffActiveKey(client)) {
+        nextPhase = 'secrets';
+      }
+
+      const updated = await client.query<JobRow>(
+        `UPDATE secret_reencryption_jobs
+         SET phase = $2,
+             last_processed_id = $3,
+             rows_scanned = rows_scanned + $4,
+             secrets_reencrypted = secrets_reencrypted + $5,
+             versions_reencrypted = versions_reencrypted + $6,
+             status = CASE WHEN $2 = 'done' THEN 'completed' ELSE 'running' END,
+             completed_at = CASE WHEN $2 = 'done' THEN NOW() ELSE NULL END,
+             updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [
+          jobId,
+          nextPhase,
+          nextPhase === job.phase ? lastId : 0,
+          rows.rows.length,
+          table === 'secrets' ? reencrypted : 0,
+          table === 'secret_versions' ? reencrypted : 0,
+        ]
+      );
+
+      return updated.rows[0];
+    });
+  }
+
+  /**
+   * Whether any live or historical value is still encrypted with another key
+   */
+  private async hasValuesOffActiveKey(client: Queryable): Promise<boolean> {
+    const header = this.keyring.activeKeyHeader();
+    const result = await client.query<{ remaining: boolean }>(
+      `SELECT EXISTS (SELECT 1 FROM secrets WHERE substring(encrypted_value FROM 1 FOR $2) <> $1)
+           OR EXISTS (SELECT 1 FROM secret_versions WHERE substring(encrypted_value FROM 1 FOR $2) <> $1)
+           AS remaining`,
+      [header, header.length]
+    );
+    return result.rows[0].remaining;
+  }
+
+  private toProgress(row: JobRow): ReencryptionProgress {
+    return {
+      jobId: row.id,
+      targetKeyId: row.target_key_id,
+      status: row.status,
+      phase: row.phase,
+      rowsScanned: row.rows_scanned,
+      secretsReencrypted: row.secrets_reencrypted,
+      versionsReencrypted: row.versions_reencrypted,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,604 @@
+import { exec } from 'child_process';
+import { promisify } from 'util';
+import db from '../db/pool.js';
+import { SecretsManager } from './SecretsManager.js';
+import { ApiKeyCreator, apiKeyPathFor, creationOptionsFromMetadata } from './ApiKeyCreator.js';
+import { SecretAccessContext } from './SecretAuditLog.js';
+import { redactor } from './SecretRedactor.js';
+
+const execAsync = promisify(exec);
+
+export type RotationStatus = 'creating' | 'verifying' | 'grace_period' | 'completed' | 'failed' | 'rolled_back';
+
+export type RotationStep = 'creating' | 'verifying' | 'revoking' | 'rolling_back';
+
+export interface SecretRotation {
+  id: number;
+  keyPath: string;
+  provider: string;
+  status: RotationStatus;
+  failedStep?: RotationStep;
+  oldVersion: number;
+  newVersion?: number;
+  oldKeyId?: string;
+  newKeyId?: string;
+  gracePeriodSeconds: number;
+  revokeAfter?: Date;
+  verifyOutput?: string;
+  startedAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+  errorMessage?: string;
+}
+
+export interface RotationHook {
+  projectName: string;
+  verifyCommand: string;
+  workingDir?: string;
+  timeoutSeconds: number;
+}
+
+/**
+ * Checks that a freshly created key works before the old one is revoked
+ *
+ * @returns Output worth recording, or null if the project has no check
+ * @throws Error if the key does not work
+ */
+export type RotationVerifier = (target: {
+  keyPath: string;
+  projectName: string;
+  value: string;
+}) => Promise<string | null>;
+
+/**
+ * Summary of one scheduled run
+ */
+export interface RotationRunReport {
+  started: string[];       // Rotations started (now in their grace period)
+  completed: string[];     // Old keys revoked after their grace period
+  failed: Array<{ keyPath: string; error: string }>;
+}
+
+interface RotationRow {
+  id: number;
+  key_path: string;
+  provider: string;
+  status: RotationStatus;
+  failed_step: RotationStep | null;
+  old_version: number;
+  new_version: number | null;
+  old_key_id: string | null;
+  new_key_id: string | null;
+  old_metadata: Record<string, string> | null;
+  grace_period_seconds: number;
+  rotation_interval_seconds: number | null;
+  revoke_after: Date | null;
+  verify_output: string | null;
+  started_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  error_message: string | null;
+}
+
+interface HookRow {
+  project_name: string;
+  verify_command: string;
+  working_dir: string | null;
+  timeout_seconds: number;
+}
+
+const DEFAULT_GRACE_PERIOD_HOURS = 24;
+
+// Verification output kept in secret_rotations
+const MAX_VERIFY_OUTPUT = 4000;
+
+const SCHEDULER_CONTEXT: SecretAccessContext = { transport: 'api', toolName: 'secret_rotation_scheduler' };
+
+/**
+ * Rotates keys created by ApiKeyCreator
+ *
+ * A rotation creates a replacement key (stored as a new version of the
+ * same secret), runs the project's verification hook against it, and
+ * revokes the old key once the grace period has passed. Every step is
+ * recorded in secret_rotations, so a rotation that fails part-way can be
+ * resumed from the failed step or rolled back to the old key.
+ */
+export class SecretRotator {
+  private secretsManager: SecretsManager;
+  private apiKeyCreator: ApiKeyCreator;
+  private verifier: RotationVerifier;
+
+  constructor(
+    secretsManager: SecretsManager,
+    apiKeyCreator: ApiKeyCreator,
+    options?: { verifier?: RotationVerifier }
+  ) {
+    this.secretsManager = secretsManager;
+    this.apiKeyCreator = apiKeyCreator;
+    this.verifier = options?.verifier ?? ((target) => this.runVerifyHook(target));
+  }
+
+  /**
+   * Start rotating a secret
+   *
+   * Returns once the new key is verified (status grace_period), or
+   * completed if the grace period is zero.
+   *
+   * @param options.gracePeriodHours - How long the old key keeps working (default: 24)
+   * @throws Error if the secret can't be rotated, a rotation is already
+   *         unfinished, or a step fails (the rotation is then resumable)
+   */
+  async rotate(
+    keyPath: string,
+    options?: { gracePeriodHours?: number },
+    context?: SecretAccessContext
+  ): Promise<SecretRotation> {
+    const secret = await this.secretsManager.describe(keyPath);
+    if (!secret) {
+      throw new Error(`Secret not found: ${keyPath}`);
+    }
+
+    const creation = creationOptionsFromMetadata(secret.metadata);
+    if (!creation || !this.apiKeyCreator.canCreateAutomatically(creation.provider)) {
+      throw new Error(`${keyPath} was not created by mcp__meta__create_api_key, so it can't be rotated automatically`);
+    }
+    if (apiKeyPathFor(creation) !== keyPath) {
+      throw new Error(`${keyPath} has moved from ${apiKeyPathFor(creation)}; rotate it there or re-create it`);
+    }
+
+    const gracePeriodHours = options?.gracePeriodHours ?? DEFAULT_GRACE_PERIOD_HOURS;
+    if (gracePeriodHours < 0) {
+      throw new Error('gracePeriodHours must not be negative');
+    }
+    const rotationInterval = secret.rotateAfter
+      ? Math.max(0, Math.round((secret.rotateAfter.getTime() - secret.updatedAt.getTime()) / 1000))
+      : null;
+
+    let row: RotationRow;
+    try {
+      const result = await db.query<RotationRow>(
+        `INSERT INTO secret_rotations
+           (key_path, provider, old_version, old_key_id, old_metadata, grace_period_seconds, rotation_interval_seconds)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING *`,
+        [
+          keyPath,
+          creation.provider,
+          secret.currentVersion,
+          secret.metadata?.key_id ?? null,
+          JSON.stringify(secret.metadata),
+          Math.round(gracePeriodHours * 3600),
+          rotationInterval || null,
+        ]
+      );
+      row = result.rows[0];
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        throw new Error(`${keyPath} already has an unfinished rotation; resume or roll it back first`);
+      }
+      throw error;
+    }
+
+    return this.advance(row, context);
+  }
+
+  /**
+   * Continue an unfinished rotation from where it stopped
+   *
+   * A rotation in its grace period is left alone until the period is over.
+   */
+  async resume(keyPath: string, context?: SecretAccessContext): Promise<SecretRotation> {
+    const row = await this.getActiveRow(keyPath);
+    if (row.status === 'failed' && row.failed_step === 'rolling_back') {
+      return this.rollback(keyPath, context);
+    }
+
+    if (row.status === 'failed') {
+      const status: RotationStatus = row.failed_step === 'verifying' ? 'verifying'
+        : row.failed_step === 'revoking' ? 'grace_period'
+        : 'creating';
+      const result = await db.query<RotationRow>(
+        `UPDATE secret_rotations
+         SET status = $2, failed_step = NULL, error_message = NULL, updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [row.id, status]
+      );
+      return this.advance(result.rows[0], context);
+    }
+
+    return this.advance(row, context);
+  }
+
+  /**
+   * Abandon an unfinished rotation and go back to the old key
+   *
+   * The new key (if one was created) is revoked first, then the old value
+   * and its metadata are restored as a new version. Not possible once the
+   * old key has been revoked.
+   */
+  async rollback(keyPath: string, context?: SecretAccessContext): Promise<SecretRotation> {
+    const row = await this.getActiveRow(keyPath);
+
+    try {
+      const secret = await this.secretsManager.describe(keyPath);
+      const rotatedVersion = row.new_version
+        ?? (secret && secret.currentVersion !== row.old_version ? secret.currentVersion : null);
+
+      if (secret && rotatedVersion !== null && secret.currentVersion === rotatedVersion) {
+        const newValue = await this.secretsManager.retrieveVersion(keyPath, rotatedVersion, context);
+        if (newValue !== null && secret.metadata) {
+          await this.apiKeyCreator.revokeApiKey(secret.metadata, newValue, context);
+        }
+
+        await this.secretsManager.rollback(keyPath, row.old_version, { createdBy: 'secret-rotator' }, context);
+        await this.secretsManager.updateMetadata(keyPath, { metadata: row.old_metadata }, context);
+      }
+
+      const result = await db.query<RotationRow>(
+        `UPDATE secret_rotations
+         SET status = 'rolled_back', failed_step = NULL, error_message = NULL,
+             completed_at = NOW(), updated_at = NOW()
+         WHERE id = $1
+         RETURNING *`,
+        [row.id]
+      );
+      return this.toRotation(result.rows[0]);
+    } catch (error) {
+      await this.markFailed(row.id, 'rolling_back', error);
+      throw new Error(`Rolling back the rotation of ${keyPath} failed (run rollback again): ${errorMessage(error)}`);
+    }
+  }
+
+  /**
+   * Revoke old keys whose grace period is over
+   */
+  async revokeDue(context?: SecretAccessContext): Promise<RotationRunReport> {
+    const report: RotationRunReport = { started: [], completed: [], failed: [] };
+    const due = await db.query<RotationRow>(
+      `SELECT * FROM secret_rotations
+       WHERE status = 'grace_period' AND revoke_after <= NOW()
+       ORDER BY revoke_after`
+    );
+
+    for (const row of due.rows) {
+      try {
+        await this.advance(row, context);
+        report.completed.push(row.key_path);
+      } catch (error) {
+        report.failed.push({ keyPath: row.key_path, error: errorMessage(error) });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * One scheduler pass: finish grace periods, then rotate every secret
+   * created by ApiKeyCreator whose rotate_after has passed
+   */
+  async runScheduled(context: SecretAccessContext = SCHEDULER_CONTEXT): Promise<RotationRunReport> {
+    const report = await this.revokeDue(context);
+
+    const active = await db.query<{ key_path: string }>(
+      `SELECT key_path FROM secret_rotations WHERE status NOT IN ('completed', 'rolled_back')`
+    );
+    const busy = new Set(active.rows.map((row) => row.key_path));
+    const now = Date.now();
+
+    const due = (await this.secretsManager.listExpiring(0, context)).filter((secret) =>
+      secret.rotateAfter !== undefined &&
+      secret.rotateAfter.getTime() <= now &&
+      creationOptionsFromMetadata(secret.metadata) !== null &&
+      !busy.has(secret.keyPath)
+    );
+
+    for (const secret of due) {
+      try {
+        await this.rotate(secret.keyPath, undefined, context);
+        report.started.push(secret.keyPath);
+      } catch (error) {
+        report.failed.push({ keyPath: secret.keyPath, error: errorMessage(error) });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Call runScheduled every intervalMs (runs never overlap)
+   *
+   * @returns A function that stops the scheduler
+   */
+  startScheduler(intervalMs: number): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const report = await this.runScheduled();
+        if (report.started.length + report.completed.length + report.failed.length > 0) {
+          console.error(
+            `[SecretRotator] Started ${report.started.length}, completed ${report.completed.length}, ` +
+            `failed ${report.failed.length} rotation(s)`,
+            report.failed
+          );
+        }
+      } catch (error) {
+        console.error('[SecretRotator] Scheduled run failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
+  /**
+   * Rotation history, newest first
+   */
+  async listRotations(keyPath?: string, limit = 50): Promise<SecretRotation[]> {
+    const result = await db.query<RotationRow>(
+      `SELECT * FROM secret_rotations
+       WHERE $1::text IS NULL OR key_path = $1
+       ORDER BY id DESC
+       LIMIT $2`,
+      [keyPath ?? null, limit]
+    );
+    return result.rows.map((row) => this.toRotation(row));
+  }
+
+  /**
+   * Set a project's verification hook (replaces any existing one)
+   */
+  async setHook(
+    projectName: string,
+    verifyCommand: string,
+    options?: { workingDir?: string; timeoutSeconds?: number }
+  ): Promise<RotationHook> {
+    const result = await db.query<HookRow>(
+      `INSERT INTO secret_rotation_hooks (project_name, verify_command, working_dir, timeout_seconds)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (project_name)
+       DO UPDATE SET
+         verify_command = EXCLUDED.verify_command,
+         working_dir = EXCLUDED.working_dir,
+         timeout_seconds = EXCLUDED.timeout_seconds,
+         updated_at = NOW()
+       RETURNING *`,
+      [projectName, verifyCommand, options?.workingDir ?? null, options?.timeoutSeconds ?? 60]
+    );
+    return this.toHook(result.rows[0]);
+  }
+
+  async getHook(projectName: string): Promise<RotationHook | null> {
+    const result = await db.query<HookRow>(
+      `SELECT * FROM secret_rotation_hooks WHERE project_name = $1`,
+      [projectName]
+    );
+    return result.rows.length > 0 ? this.toHook(result.rows[0]) : null;
+  }
+
+  /**
+   * @returns true if the project had a hook
+   */
+  async removeHook(projectName: string): Promise<boolean> {
+    const result = await db.query(`DELETE FROM secret_rotation_hooks WHERE project_name = $1`, [projectName]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Run the remaining steps of a rotation
+   *
+   * Stops at grace_period unless revoke_after has passed.
+   */
+  private async advance(row: RotationRow, context?: SecretAccessContext): Promise<SecretRotation> {
+    let current = row;
+    let step: RotationStep = 'creating';
+
+    try {
+      if (current.status === 'creating') {
+        step = 'creating';
+        current = await this.createStep(current, context);
+      }
+      if (current.status === 'verifying') {
+        step = 'verifying';
+        current = await this.verifyStep(current, context);
+      }
+      if (current.status === 'grace_period' && current.revoke_after && current.revoke_after.getTime() <= Date.now()) {
+        step = 'revoking';
+        current = await this.revokeStep(current, context);
+      }
+    } catch (error) {
+      await this.markFailed(current.id, step, error);
+      throw new Error(
+        `Rotation of ${current.key_path} failed while ${step} (resume or roll back): ${errorMessage(error)}`
+      );
+    }
+
+    return this.toRotation(current);
+  }
+
+  /**
+   * Create the replacement key, stored as a new version of the secret
+   */
+  private async createStep(row: RotationRow, context?: SecretAccessContext): Promise<RotationRow> {
+    const secret = await this.secretsManager.describe(row.key_path);
+    if (!secret) {
+      throw new Error(`Secret not found: ${row.key_path}`);
+    }
+
+    // A newer version means a previous attempt stored the key but died before recording it
+    if (secret.currentVersion === row.old_version) {
+      const creation = creationOptionsFromMetadata(row.old_metadata ?? undefined);
+      if (!creation) {
+        throw new Error(`${row.key_path} has no creation metadata`);
+      }
+      await this.apiKeyCreator.createApiKey({ ...creation, forceNew: true }, context);
+    }
+
+    const created = await this.secretsManager.describe(row.key_path);
+    if (!created) {
+      throw new Error(`Secret disappeared during rotation: ${row.key_path}`);
+    }
+
+    if (row.rotation_interval_seconds) {
+      await this.secretsManager.updateMetadata(row.key_path, {
+        rotateAfter: new Date(Date.now() + row.rotation_interval_seconds * 1000),
+      }, context);
+    }
+
+    const result = await db.query<RotationRow>(
+      `UPDATE secret_rotations
+       SET status = 'verifying', new_version = $2, new_key_id = $3, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [row.id, created.currentVersion, created.metadata?.key_id ?? null]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Run the verification hook against the new key, then start the grace period
+   */
+  private async verifyStep(row: RotationRow, context?: SecretAccessContext): Promise<RotationRow> {
+    const value = await this.secretsManager.retrieveVersion(row.key_path, row.new_version!, context);
+    if (value === null) {
+      throw new Error(`Version ${row.new_version} of ${row.key_path} not found`);
+    }
+
+    const output = await this.verifier({
+      keyPath: row.key_path,
+      projectName: row.old_metadata?.project_name ?? '',
+      value,
+    });
+
+    const result = await db.query<RotationRow>(
+      `UPDATE secret_rotations
+       SET status = 'grace_period',
+           verify_output = $2,
+           revoke_after = NOW() + make_interval(secs => grace_period_seconds),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [row.id, output === null ? 'No verification hook configured' : truncate(redactor.redact(output))]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Revoke the old key and finish the rotation
+   */
+  private async revokeStep(row: RotationRow, context?: SecretAccessContext): Promise<RotationRow> {
+    const oldValue = await this.secretsManager.retrieveVersion(row.key_path, row.old_version, context);
+    if (oldValue === null) {
+      throw new Error(`Version ${row.old_version} of ${row.key_path} not found`);
+    }
+    await this.apiKeyCreator.revokeApiKey(row.old_metadata ?? {}, oldValue, context);
+
+    const result = await db.query<RotationRow>(
+      `UPDATE secret_rotations
+       SET status = 'completed', completed_at = NOW(), updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [row.id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Default verifier: run the project's hook command with the new key
+   * in its environment
+   *
+   * The environment is built from scratch: the supervisor's own (keyring,
+   * DB credentials) must never reach a project's command.
+   */
+  private async runVerifyHook(target: { keyPath: string; projectName: string; value: string }): Promise<string | null> {
+    const hook = await this.getHook(target.projectName);
+    if (!hook) {
+      return null;
+    }
+
+    try {
+      const { stdout, stderr } = await execAsync(hook.verifyCommand, {
+        cwd: hook.workingDir,
+        timeout: hook.timeoutSeconds * 1000,
+        env: {
+          PATH: process.env.PATH ?? '/usr/local/bin:/usr/bin:/bin',
+          HOME: process.env.HOME ?? '/',
+          ROTATED_SECRET_KEY_PATH: target.keyPath,
+          ROTATED_SECRET_VALUE: target.value,
+        },
+      });
+      return stdout + stderr;
+    } catch (error) {
+      const { stdout = '', stderr = '' } = error as { stdout?: string; stderr?: string };
+      throw new Error(
+        `Verification hook failed: ${truncate(redactor.redact(stdout + stderr)) || errorMessage(error)}`
+      );
+    }
+  }
+
+  private async getActiveRow(keyPath: string): Promise<RotationRow> {
+    const result = await db.query<RotationRow>(
+      `SELECT * FROM secret_rotations
+       WHERE key_path = $1 AND status NOT IN ('completed', 'rolled_back')`,
+      [keyPath]
+    );
+    if (result.rows.length === 0) {
+      throw new Error(`No unfinished rotation for ${keyPath}`);
+    }
+    return result.rows[0];
+  }
+
+  private async markFailed(id: number, step: RotationStep, error: unknown): Promise<void> {
+    await db.query(
+      `UPDATE secret_rotations
+       SET status = 'failed', failed_step = $2, error_message = $3, updated_at = NOW()
+       WHERE id = $1`,
+      [id, step, redactor.redact(errorMessage(error))]
+    );
+  }
+
+  private toRotation(row: RotationRow): SecretRotation {
+    return {
+      id: row.id,
+      keyPath: row.key_path,
+      provider: row.provider,
+      status: row.status,
+      failedStep: row.failed_step ?? undefined,
+      oldVersion: row.old_version,
+      newVersion: row.new_version ?? undefined,
+      oldKeyId: row.old_key_id ?? undefined,
+      newKeyId: row.new_key_id ?? undefined,
+      gracePeriodSeconds: row.grace_period_seconds,
+      revokeAfter: row.revoke_after ?? undefined,
+      verifyOutput: row.verify_output ?? undefined,
+      startedAt: row.started_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+    };
+  }
+
+  private toHook(row: HookRow): RotationHook {
+    return {
+      projectName: row.project_name,
+      verifyCommand: row.verify_command,
+      workingDir: row.working_dir ?? undefined,
+      timeoutSeconds: row.timeout_seconds,
+    };
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function truncate(output: string): string {
+  return output.length > MAX_VERIFY_OUTPUT ? `${output.slice(0, MAX_VERIFY_OUTPUT)}…` : output;
+}
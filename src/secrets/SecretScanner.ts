@@ -0,0 +1,309 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { AutoSecretDetector, DetectionContext } from './AutoSecretDetector.js';
+
+/**
+ * A secret found in a file (the value itself is never included)
+ */
+export interface SecretFinding {
+  file: string;            // Relative to the scan root
+  line: number;            // 1-based
+  column: number;          // 1-based
+  provider: string;
+  secretType: string;
+  preview: string;         // Masked value, e.g. sk_liv…x9Qz
+  confidence: number;      // 0..1, see secretScoring.ts
+}
+
+export interface ScanReport {
+  root: string;
+  filesScanned: number;
+  filesSkipped: number;    // Ignored by size, binary content or read errors
+  findings: SecretFinding[];
+  truncated: boolean;      // Stopped early at maxFindings
+}
+
+export interface ScanOptions {
+  maxFileSize?: number;    // Bytes (default: 1 MB)
+  maxFindings?: number;    // Stop after this many (default: 500)
+  minConfidence?: number;  // Drop findings below this (default: 0.5)
+  context?: DetectionContext;
+}
+
+/**
+ * One .gitignore rule, compiled
+ */
+interface IgnoreRule {
+  regex: RegExp;
+  negate: boolean;
+  dirOnly: boolean;
+  matchBasename: boolean;  // No slash in the pattern: match at any depth
+}
+
+/**
+ * Rules from one .gitignore and the directory they apply to
+ */
+interface IgnoreRuleSet {
+  baseDir: string;         // Relative to the scan root ('' for the root)
+  rules: IgnoreRule[];
+}
+
+const DEFAULT_MAX_FILE_SIZE = 1024 * 1024;
+const DEFAULT_MAX_FINDINGS = 500;
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+// Never worth scanning, whether or not they are ignored
+const ALWAYS_SKIPPED = new Set(['.git', 'node_modules']);
+
+/**
+ * Mask a secret for display: enough to recognise it, not enough to use it
+ */
+export function maskSecret(value: string): string {
+  if (value.length <= 12) {
+    return '*'.repeat(value.length);
+  }
+  return `${value.slice(0, 6)}…${value.slice(-4)}`;
+}
+
+/**
+ * Scans files and directory trees for secrets using AutoSecretDetector patterns
+ *
+ * Directory scans honour .gitignore files at every level (including
+ * negated patterns) and never follow symlinks.
+ */
+export class SecretScanner {
+  private detector: AutoSecretDetector;
+
+  constructor(detector: AutoSecretDetector) {
+    this.detector = detector;
+  }
+
+  /**
+   * Scan a file or a whole directory tree
+   */
+  async scan(target: string, options?: ScanOptions): Promise<ScanReport> {
+    const root = path.resolve(target);
+    const stat = await fs.stat(root);
+
+    const report: ScanReport = {
+      root,
+      filesScanned: 0,
+      filesSkipped: 0,
+      findings: [],
+      truncated: false,
+    };
+
+    if (stat.isDirectory()) {
+      await this.walk(root, '', [], report, options);
+    } else {
+      await this.scanInto(root, path.basename(root), report, options);
+    }
+
+    return report;
+  }
+
+  /**
+   * Scan a single file
+   *
+   * @returns Findings, or null if the file was skipped (too large or binary)
+   */
+  async scanFile(filePath: string, options?: ScanOptions): Promise<SecretFinding[] | null> {
+    const stat = await fs.stat(filePath);
+    if (stat.size > (options?.maxFileSize ?? DEFAULT_MAX_FILE_SIZE)) {
+      return null;
+    }
+
+    const content = await fs.readFile(filePath);
+    if (content.subarray(0, 8000).includes(0)) {
+      return null;
+    }
+
+    const minConfidence = options?.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+    const matches = await this.detector.scanText(content.toString('utf-8'), options?.context);
+    return matches.filter((match) => match.confidence >= minConfidence).map((match) => ({
+      file: filePath,
+      line: match.line,
+      column: match.column,
+      provider: match.provider,
+      secretType: match.secretType,
+      preview: maskSecret(match.value),
+      confidence: match.confidence,
+    }));
+  }
+
+  private async walk(
+    root: string,
+    relativeDir: string,
+    parentRules: IgnoreRuleSet[],
+    report: ScanReport,
+    options?: ScanOptions
+  ): Promise<void> {
+    const absoluteDir = path.join(root, relativeDir);
+    const ruleSets = [...parentRules];
+
+    const gitignore = await fs.readFile(path.join(absoluteDir, '.gitignore'), 'utf-8').catch(() => null);
+    if (gitignore !== null) {
+      ruleSets.push({ baseDir: relativeDir, rules: parseGitignore(gitignore) });
+    }
+
+    const entries = await fs.readdir(absoluteDir, { withFileTypes: true });
+    entries.sort((a, b) => a.name.localeCompare(b.name));
+
+    for (const entry of entries) {
+      if (report.truncated) {
+        return;
+      }
+
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      const isDirectory = entry.isDirectory();
+
+      if (entry.isSymbolicLink() || ALWAYS_SKIPPED.has(entry.name)) {
+        continue;
+      }
+      if (isIgnored(relativePath, isDirectory, ruleSets)) {
+        continue;
+      }
+
+      if (isDirectory) {
+        await this.walk(root, relativePath, ruleSets, report, options);
+      } else if (entry.isFile()) {
+        await this.scanInto(path.join(root, relativePath), relativePath, report, options);
+      }
+    }
+  }
+
+  private async scanInto(
+    absolutePath: string,
+    relativePath: string,
+    report: ScanReport,
+    options?: ScanOptions
+  ): Promise<void> {
+    let findings: SecretFinding[] | null;
+    try {
+      findings = await this.scanFile(absolutePath, options);
+    } catch (error) {
+      console.error(`[SecretScanner] Failed to read ${absolutePath}:`, error);
+      findings = null;
+    }
+
+    if (findings === null) {
+      report.filesSkipped++;
+      return;
+    }
+
+    report.filesScanned++;
+    const maxFindings = options?.maxFindings ?? DEFAULT_MAX_FINDINGS;
+    for (const finding of findings) {
+      if (report.findings.length >= maxFindings) {
+        report.truncated = true;
+        return;
+      }
+      report.findings.push({ ...finding, file: relativePath });
+    }
+  }
+}
+
+/**
+ * Compile .gitignore content into rules
+ */
+function parseGitignore(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.trimEnd();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const negate = line.startsWith('!');
+    if (negate) {
+      line = line.slice(1);
+    } else if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    const dirOnly = line.endsWith('/');
+    if (dirOnly) {
+      line = line.slice(0, -1);
+    }
+
+    const matchBasename = !line.includes('/');
+    if (line.startsWith('/')) {
+      line = line.slice(1);
+    }
+    if (line === '') {
+      continue;
+    }
+
+    rules.push({ regex: new RegExp(`^${globToRegex(line)}$`), negate, dirOnly, matchBasename });
+  }
+
+  return rules;
+}
+
+/**
+ * Translate a gitignore glob (*, ?, **, [...]) into a regex body
+ */
+function globToRegex(glob: string): string {
+  let regex = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        if (glob[i + 2] === '/') {
+          regex += '(?:.*/)?';     // "**/" matches zero or more directories
+          i += 2;
+        } else {
+          regex += '.*';
+          i += 1;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 1);
+      if (close === -1) {
+        regex += '\\[';
+      } else {
+        regex += `[${glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (char === '\\' && i + 1 < glob.length) {
+      regex += glob[++i].replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    } else {
+      regex += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+  }
+
+  return regex;
+}
+
+/**
+ * Apply .gitignore rules from the root down; the last matching rule wins
+ */
+function isIgnored(relativePath: string, isDirectory: boolean, ruleSets: IgnoreRuleSet[]): boolean {
+  let ignored = false;
+
+  for (const { baseDir, rules } of ruleSets) {
+    if (baseDir && !relativePath.startsWith(`${baseDir}/`)) {
+      continue;
+    }
+    const pathFromBase = baseDir ? relativePath.slice(baseDir.length + 1) : relativePath;
+    const basename = pathFromBase.slice(pathFromBase.lastIndexOf('/') + 1);
+
+    for (const rule of rules) {
+      if (rule.dirOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.regex.test(rule.matchBasename ? basename : pathFromBase)) {
+        ignored = !rule.negate;
+      }
+    }
+  }
+
+  return ignored;
+}
@@ -0,0 +1,162 @@
+import os from 'os';
+import path from 'path';
+import { SecretsKeyring } from './SecretsKeyring.js';
+import { SecretAuditStore } from './SecretAuditLog.js';
+import { PostgresSecretsBackend } from './PostgresSecretsBackend.js';
+import { FileSecretsBackend } from './FileSecretsBackend.js';
+
+export interface Secret {
+  id: number;
+  keyPath: string;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: string;
+  description?: string;
+  secretType?: string;
+  provider?: string;
+  metadata?: Record<string, string>;
+  currentVersion: number;
+  expiresAt?: Date;
+  rotateAfter?: Date;
+}
+
+/**
+ * A secret together with its (still encrypted) current value
+ */
+export interface StoredSecret extends Secret {
+  encryptedValue: Buffer;
+}
+
+export interface StoreSecretOptions {
+  createdBy?: string;
+  description?: string;
+  secretType?: string;
+  provider?: string;
+  metadata?: Record<string, string>;  // Never put secret values here: it is stored unencrypted
+  expiresAt?: Date;
+  rotateAfter?: Date;
+}
+
+export interface SecretVersion {
+  version: number;
+  createdAt: Date;
+  createdBy?: string;
+  changeType: 'store' | 'rollback';
+  rolledBackFrom?: number;
+  isCurrent: boolean;
+}
+
+/**
+ * An encrypted value to write, with its metadata
+ */
+export interface SecretWrite extends StoreSecretOptions {
+  keyPath: string;
+  encryptedValue: Buffer;
+}
+
+export interface SecretMetadataUpdate {
+  description?: string;
+  secretType?: string;
+  provider?: string;
+  expiresAt?: Date | null;    // null clears the expiry
+  rotateAfter?: Date | null;  // null clears the rotation reminder
+  metadata?: Record<string, string> | null;  // Replaces all metadata; null clears it
+}
+
+export interface SecretListFilter {
+  provider?: string;
+  secretType?: string;
+  keyPathPrefix?: string;
+}
+
+/**
+ * Storage for encrypted secrets, their version history and the access log
+ *
+ * Backends only ever see encrypted values; SecretsManager does all
+ * encryption and decryption. Every method that takes several key paths
+ * must apply all of its changes or none of them.
+ */
+export interface SecretsBackend {
+  readonly name: SecretsBackendName;
+  readonly auditLog: SecretAuditStore;
+
+  /**
+   * Insert or overwrite secrets, appending a new version for each
+   */
+  upsertMany(writes: SecretWrite[]): Promise<Secret[]>;
+
+  get(keyPath: string): Promise<StoredSecret | null>;
+
+  /**
+   * List secret metadata, ordered by key path
+   */
+  list(filter?: SecretListFilter): Promise<Secret[]>;
+
+  /**
+   * List secrets under a key path prefix together with their values
+   */
+  listWithValues(keyPathPrefix: string): Promise<StoredSecret[]>;
+
+  /**
+   * @returns Key paths that existed and were deleted
+   */
+  deleteMany(keyPaths: string[]): Promise<string[]>;
+
+  updateMetadata(keyPath: string, metadata: SecretMetadataUpdate): Promise<Secret | null>;
+
+  /**
+   * Versions newest first
+   */
+  listVersions(keyPath: string): Promise<SecretVersion[]>;
+
+  getVersion(keyPath: string, version: number): Promise<Buffer | null>;
+
+  /**
+   * Copy an old version forward as a new 'rollback' version
+   */
+  rollback(keyPath: string, version: number, createdBy?: string): Promise<Secret | null>;
+
+  /**
+   * Secrets whose expires_at or rotate_after is at or before the cutoff,
+   * soonest first
+   */
+  listDueBefore(cutoff: Date): Promise<Secret[]>;
+
+  /**
+   * Rename every key path under fromPrefix to toPrefix, keeping history
+   *
+   * @param overwrite - Replace existing secrets at the target key paths
+   *                    instead of failing
+   */
+  movePrefix(fromPrefix: string, toPrefix: string, overwrite: boolean): Promise<Array<{ from: string; to: string }>>;
+}
+
+export type SecretsBackendName = 'postgres' | 'file';
+
+/**
+ * Default vault location for the file backend
+ */
+export const DEFAULT_VAULT_PATH = path.join(os.homedir(), '.supervisor-service', 'secrets.vault');
+
+/**
+ * Create the backend selected by SECRETS_BACKEND
+ *
+ * - postgres (default): the secrets tables in the shared database
+ * - file: an encrypted single-file vault at SECRETS_VAULT_PATH, for
+ *   laptops and CI without Postgres
+ */
+export function secretsBackendFromEnv(
+  keyring: SecretsKeyring,
+  env: NodeJS.ProcessEnv = process.env
+): SecretsBackend {
+  const name = env.SECRETS_BACKEND || 'postgres';
+
+  switch (name) {
+    case 'postgres':
+      return new PostgresSecretsBackend();
+    case 'file':
+      return new FileSecretsBackend(env.SECRETS_VAULT_PATH || DEFAULT_VAULT_PATH, keyring);
+    default:
+      throw new Error(`Unknown SECRETS_BACKEND "${name}" (expected "postgres" or "file")`);
+  }
+}
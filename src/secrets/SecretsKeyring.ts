@@ -0,0 +1,283 @@
+import crypto from 'crypto';
+
+/**
+ * A single master key in the keyring
+ */
+export interface KeyringEntry {
+  keyId: string;
+  key: Buffer;
+}
+
+/**
+ * Envelope header written in front of every value encrypted by the keyring
+ *
+ * Format: [Magic "SK" (2 bytes)][Format version (1 byte)][Key ID length (1 byte)][Key ID]
+ *         [IV (16 bytes)][Auth Tag (16 bytes)][Encrypted Data]
+ *
+ * Values written before key IDs existed are plain [IV][Auth Tag][Data] and
+ * are still readable (see decrypt()).
+ */
+const ENVELOPE_MAGIC = Buffer.from('SK', 'ascii');
+const ENVELOPE_VERSION = 1;
+const IV_LENGTH = 16;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Key ID assigned to the single ENCRYPTION_KEY when no ID is configured
+ */
+export const DEFAULT_KEY_ID = 'default';
+
+/**
+ * Set of AES-256-GCM master keys used to encrypt secrets
+ *
+ * New values are always encrypted with the active key and tagged with its
+ * ID. Older keys stay in the keyring so values encrypted with them can
+ * still be decrypted until they have been re-encrypted.
+ */
+export class SecretsKeyring {
+  private keys = new Map<string, Buffer>();
+  private activeId: string;
+
+  constructor(entries: KeyringEntry[], activeKeyId?: string) {
+    if (entries.length === 0) {
+      throw new Error('Keyring must contain at least one encryption key');
+    }
+
+    for (const entry of entries) {
+      if (!/^[A-Za-z0-9._-]{1,64}$/.test(entry.keyId)) {
+        throw new Error(`Invalid encryption key ID: ${entry.keyId} (use letters, numbers, ".", "_" or "-")`);
+      }
+      if (entry.key.length !== 32) {
+        throw new Error(`Encryption key ${entry.keyId} must be 32 bytes (64 hex characters)`);
+      }
+      if (this.keys.has(entry.keyId)) {
+        throw new Error(`Duplicate encryption key ID: ${entry.keyId}`);
+      }
+      this.keys.set(entry.keyId, entry.key);
+    }
+
+    this.activeId = activeKeyId ?? entries[entries.length - 1].keyId;
+    if (!this.keys.has(this.activeId)) {
+      throw new Error(`Active encryption key ${this.activeId} is not in the keyring`);
+    }
+  }
+
+  /**
+   * Build a keyring holding a single hex key
+   */
+  static fromHex(encryptionKeyHex: string, keyId = DEFAULT_KEY_ID): SecretsKeyring {
+    if (!encryptionKeyHex || !/^[0-9a-fA-F]{64}$/.test(encryptionKeyHex)) {
+      throw new Error('Encryption key must be 32 bytes (64 hex characters)');
+    }
+    return new SecretsKeyring([{ keyId, key: Buffer.from(encryptionKeyHex, 'hex') }]);
+  }
+
+  /**
+   * Build a keyring from environment variables
+   *
+   * - ENCRYPTION_KEYS: comma-separated `keyId:hex` entries (oldest first)
+   * - ENCRYPTION_KEY: single hex key, added with ID ENCRYPTION_KEY_ID (default: "default")
+   * - ENCRYPTION_ACTIVE_KEY_ID: key used for new values (default: last entry of
+   *   ENCRYPTION_KEYS, otherwise ENCRYPTION_KEY)
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): SecretsKeyring {
+    const entries: KeyringEntry[] = [];
+
+    if (env.ENCRYPTION_KEY) {
+      const single = SecretsKeyring.fromHex(env.ENCRYPTION_KEY, env.ENCRYPTION_KEY_ID || DEFAULT_KEY_ID);
+      entries.push(...single.entries());
+    }
+
+    for (const item of (env.ENCRYPTION_KEYS || '').split(',')) {
+      const trimmed = item.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      const separator = trimmed.lastIndexOf(':');
+      if (separator <= 0) {
+        throw new Error(`Invalid ENCRYPTION_KEYS entry "${trimmed.substring(0, 16)}..." (expected keyId:hex)`);
+      }
+
+      const keyId = trimmed.substring(0, separator);
+      const hex = trimmed.substring(separator + 1);
+      if (!/^[0-9a-fA-F]{64}$/.test(hex)) {
+        throw new Error(`Encryption key ${keyId} must be 32 bytes (64 hex characters)`);
+      }
+
+      // ENCRYPTION_KEY may also be listed in ENCRYPTION_KEYS under the same ID
+      const existing = entries.find((entry) => entry.keyId === keyId);
+      if (existing) {
+        if (!existing.key.equals(Buffer.from(hex, 'hex'))) {
+          throw new Error(`Encryption key ID ${keyId} is configured with two different keys`);
+        }
+        entries.splice(entries.indexOf(existing), 1);
+      }
+      entries.push({ keyId, key: Buffer.from(hex, 'hex') });
+    }
+
+    if (entries.length === 0) {
+      throw new Error('ENCRYPTION_KEY or ENCRYPTION_KEYS must be set (generate a key with: openssl rand -hex 32)');
+    }
+
+    return new SecretsKeyring(entries, env.ENCRYPTION_ACTIVE_KEY_ID || undefined);
+  }
+
+  /**
+   * ID of the key used to encrypt new values
+   */
+  get activeKeyId(): string {
+    return this.activeId;
+  }
+
+  /**
+   * IDs of all keys that can decrypt values
+   */
+  get keyIds(): string[] {
+    return [...this.keys.keys()];
+  }
+
+  /**
+   * Encrypt a value with the active key
+   */
+  encrypt(value: string): Buffer {
+    const key = this.keys.get(this.activeId)!;
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+
+    let encrypted = cipher.update(value, 'utf8');
+    encrypted = Buffer.concat([encrypted, cipher.final()]);
+
+    const authTag = cipher.getAuthTag();
+    const keyId = Buffer.from(this.activeId, 'utf8');
+
+    return Buffer.concat([
+      ENVELOPE_MAGIC,
+      Buffer.from([ENVELOPE_VERSION, keyId.length]),
+      keyId,
+      iv,
+      authTag,
+      encrypted,
+    ]);
+  }
+
+  /**
+   * Decrypt a value encrypted by any key in the keyring
+   *
+   * Legacy values without an envelope header carry no key ID, so every key
+   * is tried in turn; the GCM auth tag rejects the wrong ones.
+   */
+  decrypt(encryptedBuffer: Buffer): string {
+    const envelope = this.parseEnvelope(encryptedBuffer);
+
+    if (envelope) {
+      const key = this.keys.get(envelope.keyId);
+      try {
+        if (!key) {
+          throw new Error(`Secret was encrypted with key ${envelope.keyId}, which is not in the keyring`);
+        }
+        return this.decryptWithKey(envelope.payload, key);
+      } catch (error) {
+        // A legacy value can begin with bytes that look like a header by chance
+        const legacy = this.tryLegacyDecrypt(encryptedBuffer);
+        if (legacy !== null) {
+          return legacy;
+        }
+        throw error;
+      }
+    }
+
+    const legacy = this.tryLegacyDecrypt(encryptedBuffer);
+    if (legacy === null) {
+      throw new Error('Unable to decrypt secret with any key in the keyring');
+    }
+    return legacy;
+  }
+
+  /**
+   * Get the ID of the key that encrypted a value
+   *
+   * @returns The key ID, or null for legacy values written without one
+   */
+  getKeyId(encryptedBuffer: Buffer): string | null {
+    return this.parseEnvelope(encryptedBuffer)?.keyId ?? null;
+  }
+
+  /**
+   * Envelope header every value encrypted with the active key starts with
+   * (lets SQL find values on other keys without decrypting anything)
+   */
+  activeKeyHeader(): Buffer {
+    const keyId = Buffer.from(this.activeId, 'utf8');
+    return Buffer.concat([ENVELOPE_MAGIC, Buffer.from([ENVELOPE_VERSION, keyId.length]), keyId]);
+  }
+
+  /**
+   * Check whether a value still needs re-encrypting with the active key
+   */
+  needsReencryption(encryptedBuffer: Buffer): boolean {
+    return this.getKeyId(encryptedBuffer) !== this.activeId;
+  }
+
+  /**
+   * Decrypt a value and encrypt it again with the active key
+   */
+  reencrypt(encryptedBuffer: Buffer): Buffer {
+    return this.encrypt(this.decrypt(encryptedBuffer));
+  }
+
+  /**
+   * Export the keyring entries (used to merge keyrings)
+   */
+  entries(): KeyringEntry[] {
+    return [...this.keys.entries()].map(([keyId, key]) => ({ keyId, key }));
+  }
+
+  private parseEnvelope(buffer: Buffer): { keyId: string; payload: Buffer } | null {
+    if (
+      buffer.length < 4 ||
+      !buffer.subarray(0, 2).equals(ENVELOPE_MAGIC) ||
+      buffer[2] !== ENVELOPE_VERSION
+    ) {
+      return null;
+    }
+
+    const keyIdLength = buffer[3];
+    const headerLength = 4 + keyIdLength;
+    if (keyIdLength === 0 || buffer.length < headerLength + IV_LENGTH + AUTH_TAG_LENGTH) {
+      return null;
+    }
+
+    const keyId = buffer.subarray(4, headerLength).toString('utf8');
+    if (!/^[A-Za-z0-9._-]+$/.test(keyId)) {
+      return null;
+    }
+
+    return { keyId, payload: buffer.subarray(headerLength) };
+  }
+
+  private tryLegacyDecrypt(buffer: Buffer): string | null {
+    for (const key of this.keys.values()) {
+      try {
+        return this.decryptWithKey(buffer, key);
+      } catch {
+        // Wrong key, try the next one
+      }
+    }
+    return null;
+  }
+
+  private decryptWithKey(payload: Buffer, key: Buffer): string {
+    const iv = payload.subarray(0, IV_LENGTH);
+    const authTag = payload.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH);
+    const encrypted = payload.subarray(IV_LENGTH + AUTH_TAG_LENGTH);
+
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(authTag);
+
+    let decrypted = decipher.update(encrypted);
+    decrypted = Buffer.concat([decrypted, decipher.final()]);
+
+    return decrypted.toString('utf8');
+  }
+}
@@ -1,187 +1,411 @@
-import crypto from 'crypto';
-import db from '../db/pool.js';
-
-export interface Secret {
-  id: number;
-  keyPath: string;
-  createdAt: Date;
-  updatedAt: Date;
-  createdBy?: string;
-  description?: string;
-  secretType?: string;
-  provider?: string;
-}
+import { SecretsKeyring } from './SecretsKeyring.js';
+import {
+  Secret,
+  SecretsBackend,
+  SecretsBackendName,
+  SecretMetadataUpdate,
+  SecretVersion,
+  SecretWrite,
+  StoreSecretOptions,
+} from './SecretsBackend.js';
+import { PostgresSecretsBackend } from './PostgresSecretsBackend.js';
+import { redactor } from './SecretRedactor.js';
+import {
+  SecretAuditStore,
+  SecretAccessContext,
+  SecretAccessEntry,
+  SecretAccessOutcome,
+  SecretAuditFilter,
+  SecretOperation,
+} from './SecretAuditLog.js';
+import {
+  EnvDiff,
+  diffEnv,
+  envVarToKeyPath,
+  keyPathToEnvVar,
+  parseEnvContent,
+  projectKeyPrefix,
+  renderEnvContent,
+} from './envFile.js';
+import {
+  SERVICE_ACCOUNT_SECRET_TYPE,
+  ServiceAccountKeyField,
+  parseServiceAccountKey,
+  serviceAccountKeyField,
+  serviceAccountMetadata,
+} from './serviceAccountKey.js';
+
+export type { Secret, SecretVersion, StoreSecretOptions } from './SecretsBackend.js';
 
 export interface SecretWithValue extends Secret {
   value: string;
 }
 
+/**
+ * A decrypted value together with its lifecycle state
+ */
+export interface SecretValueStatus {
+  value: string;
+  expiresAt?: Date;
+  rotateAfter?: Date;
+  expired: boolean;
+  rotationDue: boolean;
+  warning?: string;   // Human-readable note when expired or due for rotation
+}
+
+/**
+ * A secret that is expired, expiring soon, or due for rotation
+ */
+export interface ExpiringSecret extends Secret {
+  expired: boolean;
+  rotationDue: boolean;
+  daysUntilExpiry?: number;
+}
+
+export interface SecretsManagerOptions {
+  /**
+   * What retrieve() does with a value past its expires_at:
+   * - 'warn' (default): return it and log a warning
+   * - 'refuse': throw unless the caller passes allowExpired
+   */
+  expiredSecretPolicy?: 'warn' | 'refuse';
+
+  /**
+   * Where secrets are stored (default: PostgresSecretsBackend)
+   */
+  backend?: SecretsBackend;
+}
+
 export class SecretsManager {
-  private encryptionKey: Buffer;
+  private keyring: SecretsKeyring;
+  private backend: SecretsBackend;
+  private auditLog: SecretAuditStore;
+  private expiredSecretPolicy: 'warn' | 'refuse';
 
-  constructor(encryptionKeyHex: string) {
-    if (!encryptionKeyHex || encryptionKeyHex.length !== 64) {
-      throw new Error('Encryption key must be 32 bytes (64 hex characters)');
-    }
-    this.encryptionKey = Buffer.from(encryptionKeyHex, 'hex');
+  /**
+   * @param encryption - Either a single 64-character hex key or a keyring
+   *                     holding the active key plus any retired keys
+   */
+  constructor(encryption: string | SecretsKeyring, options?: SecretsManagerOptions) {
+    this.keyring = typeof encryption === 'string'
+      ? SecretsKeyring.fromHex(encryption)
+      : encryption;
+    this.expiredSecretPolicy = options?.expiredSecretPolicy ?? 'warn';
+    this.backend = options?.backend ?? new PostgresSecretsBackend();
+    this.auditLog = this.backend.auditLog;
+  }
+
+  /**
+   * Name of the storage backend in use
+   */
+  get backendName(): SecretsBackendName {
+    return this.backend.name;
   }
 
   /**
-   * Encrypt a value using AES-256-GCM
+   * Encrypt a value using AES-256-GCM with the active keyring key
    */
   private encrypt(value: string): Buffer {
-    const iv = crypto.randomBytes(16);
-    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    return this.keyring.encrypt(value);
+  }
 
-    let encrypted = cipher.update(value, 'utf8');
-    encrypted = Buffer.concat([encrypted, cipher.final()]);
+  /**
+   * Decrypt a value using whichever keyring key encrypted it
+   */
+  private decrypt(encryptedBuffer: Buffer): string {
+    return this.keyring.decrypt(encryptedBuffer);
+  }
+
+  /**
+   * Decrypt every stored secret into the redactor, so values stored by
+   * earlier runs are masked before anything reads them
+   *
+   * Called once at startup; store, delete, move and rollback keep it current.
+   *
+   * @returns Number of values loaded
+   */
+  async loadRedactionValues(): Promise<number> {
+    const secrets = await this.backend.listWithValues('');
+    const values: Array<{ keyPath: string; value: string }> = [];
 
-    const authTag = cipher.getAuthTag();
+    for (const secret of secrets) {
+      try {
+        values.push({ keyPath: secret.keyPath, value: this.decrypt(secret.encryptedValue) });
+      } catch (error) {
+        console.error(`[Secrets] Cannot decrypt ${secret.keyPath} for redaction:`, error instanceof Error ? error.message : error);
+      }
+    }
 
-    // Format: [IV (16 bytes)][Auth Tag (16 bytes)][Encrypted Data]
-    return Buffer.concat([iv, authTag, encrypted]);
+    redactor.loadSecretValues(values);
+    return values.length;
   }
 
   /**
-   * Decrypt a value using AES-256-GCM
+   * Run an operation and record its outcome in the audit log
    */
-  private decrypt(encryptedBuffer: Buffer): string {
-    const iv = encryptedBuffer.subarray(0, 16);
-    const authTag = encryptedBuffer.subarray(16, 32);
-    const encrypted = encryptedBuffer.subarray(32);
+  private async audited<T>(
+    operation: SecretOperation,
+    keyPath: string | undefined,
+    context: SecretAccessContext | undefined,
+    fn: () => Promise<T>,
+    outcomeOf: (result: T) => SecretAccessOutcome = () => 'success'
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      await this.auditLog.record({
+        operation,
+        keyPath,
+        context,
+        outcome: 'error',
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
 
-    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
-    decipher.setAuthTag(authTag);
+    await this.auditLog.record({ operation, keyPath, context, outcome: outcomeOf(result) });
+    return result;
+  }
 
-    let decrypted = decipher.update(encrypted);
-    decrypted = Buffer.concat([decrypted, decipher.final()]);
+  /**
+   * Run a multi-key operation and record one audit entry per key path
+   *
+   * Entries are written after the operation settles, so a rolled-back
+   * transaction is logged as an error for every key rather than a success.
+   */
+  private async auditedBatch<T>(
+    operation: SecretOperation,
+    keyPaths: string[],
+    context: SecretAccessContext | undefined,
+    fn: () => Promise<T>,
+    outcomeOf: (result: T, keyPath: string) => SecretAccessOutcome = () => 'success'
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await fn();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      for (const keyPath of keyPaths) {
+        await this.auditLog.record({ operation, keyPath, context, outcome: 'error', errorMessage });
+      }
+      throw error;
+    }
 
-    return decrypted.toString('utf8');
+    for (const keyPath of keyPaths) {
+      await this.auditLog.record({ operation, keyPath, context, outcome: outcomeOf(result, keyPath) });
+    }
+    return result;
   }
 
   /**
    * Store a secret
+   *
+   * Every call appends a new entry to secret_versions, so overwriting a
+   * key never loses the previous value.
    */
   async store(
     keyPath: string,
     value: string,
-    options?: {
-      createdBy?: string;
-      description?: string;
-      secretType?: string;
-      provider?: string;
-    }
+    options?: StoreSecretOptions,
+    context?: SecretAccessContext
   ): Promise<Secret> {
-    const encryptedValue = this.encrypt(value);
-
-    const result = await db.query<Secret>(
-      `INSERT INTO secrets (key_path, encrypted_value, created_by, description, secret_type, provider)
-       VALUES ($1, $2, $3, $4, $5, $6)
-       ON CONFLICT (key_path)
-       DO UPDATE SET
-         encrypted_value = EXCLUDED.encrypted_value,
-         updated_at = NOW(),
-         created_by = EXCLUDED.created_by,
-         description = EXCLUDED.description,
-         secret_type = EXCLUDED.secret_type,
-         provider = EXCLUDED.provider
-       RETURNING id, key_path, created_at, updated_at, created_by, description, secret_type, provider`,
-      [
-        keyPath,
-        encryptedValue,
-        options?.createdBy,
-        options?.description,
-        options?.secretType,
-        options?.provider,
-      ]
-    );
+    return this.audited('store', keyPath, context, async () => {
+      const [secret] = await this.backend.upsertMany([this.toWrite(keyPath, value, options)]);
+      redactor.setSecretValue(keyPath, value);
+      return secret;
+    });
+  }
 
-    return result.rows[0];
+  /**
+   * Encrypt a value for the backend
+   */
+  private toWrite(keyPath: string, value: string, options?: StoreSecretOptions): SecretWrite {
+    return {
+      keyPath,
+      encryptedValue: this.encrypt(value),
+      createdBy: options?.createdBy,
+      description: options?.description,
+      secretType: options?.secretType,
+      provider: options?.provider,
+      metadata: options?.metadata,
+      expiresAt: options?.expiresAt,
+      rotateAfter: options?.rotateAfter,
+    };
   }
 
   /**
    * Retrieve a secret
+   *
+   * Expired values follow the configured expiredSecretPolicy.
    */
-  async retrieve(keyPath: string): Promise<string | null> {
-    const result = await db.query<{ encrypted_value: Buffer }>(
-      `SELECT encrypted_value FROM secrets WHERE key_path = $1`,
-      [keyPath]
-    );
-
-    if (result.rows.length === 0) {
-      return null;
-    }
+  async retrieve(
+    keyPath: string,
+    context?: SecretAccessContext,
+    options?: { allowExpired?: boolean }
+  ): Promise<string | null> {
+    const status = await this.retrieveWithStatus(keyPath, context, options);
+    return status ? status.value : null;
+  }
 
-    return this.decrypt(result.rows[0].encrypted_value);
+  /**
+   * Retrieve a secret together with its expiry and rotation state
+   *
+   * @throws Error if the value has expired, the policy is 'refuse' and
+   *         allowExpired isn't set
+   */
+  async retrieveWithStatus(
+    keyPath: string,
+    context?: SecretAccessContext,
+    options?: { allowExpired?: boolean }
+  ): Promise<SecretValueStatus | null> {
+    return this.audited('retrieve', keyPath, context, async () => {
+      const secret = await this.backend.get(keyPath);
+      if (!secret) {
+        return null;
+      }
+
+      const now = Date.now();
+      const expired = secret.expiresAt !== undefined && secret.expiresAt.getTime() <= now;
+      const rotationDue = secret.rotateAfter !== undefined && secret.rotateAfter.getTime() <= now;
+
+      if (expired) {
+        if (this.expiredSecretPolicy === 'refuse' && !options?.allowExpired) {
+          throw new Error(`Secret ${keyPath} expired at ${secret.expiresAt!.toISOString()}; rotate it or pass allowExpired`);
+        }
+        console.warn(`[Secrets] Returning expired secret ${keyPath} (expired ${secret.expiresAt!.toISOString()})`);
+      }
+
+      let warning: string | undefined;
+      if (expired) {
+        warning = `Secret expired at ${secret.expiresAt!.toISOString()}; rotate it`;
+      } else if (rotationDue) {
+        warning = `Secret was due for rotation at ${secret.rotateAfter!.toISOString()}`;
+      }
+
+      const value = this.decrypt(secret.encryptedValue);
+      redactor.setSecretValue(keyPath, value);
+
+      return {
+        value,
+        expiresAt: secret.expiresAt,
+        rotateAfter: secret.rotateAfter,
+        expired,
+        rotationDue,
+        warning,
+      };
+    }, (status) => (status === null ? 'not_found' : 'success'));
   }
 
   /**
    * List all secrets (metadata only, no values)
    */
-  async list(filter?: { provider?: string; secretType?: string }): Promise<Secret[]> {
-    let query = `SELECT id, key_path, created_at, updated_at, created_by, description, secret_type, provider
-                 FROM secrets
-                 WHERE 1=1`;
-    const params: string[] = [];
-
-    if (filter?.provider) {
-      params.push(filter.provider);
-      query += ` AND provider = $${params.length}`;
-    }
-
-    if (filter?.secretType) {
-      params.push(filter.secretType);
-      query += ` AND secret_type = $${params.length}`;
-    }
-
-    query += ` ORDER BY key_path`;
-
-    const result = await db.query<Secret>(query, params);
-    return result.rows;
+  async list(
+    filter?: { provider?: string; secretType?: string },
+    context?: SecretAccessContext
+  ): Promise<Secret[]> {
+    return this.audited('list', undefined, context, () => this.backend.list(filter));
   }
 
   /**
    * Delete a secret
    */
-  async delete(keyPath: string): Promise<boolean> {
-    const result = await db.query(`DELETE FROM secrets WHERE key_path = $1`, [keyPath]);
-    return result.rowCount ? result.rowCount > 0 : false;
+  async delete(keyPath: string, context?: SecretAccessContext): Promise<boolean> {
+    return this.audited('delete', keyPath, context, async () => {
+      const deleted = await this.backend.deleteMany([keyPath]);
+      redactor.forgetSecrets(deleted);
+      return deleted.length > 0;
+    }, (deleted) => (deleted ? 'success' : 'not_found'));
   }
 
   /**
    * Check if a secret exists
    */
   async exists(keyPath: string): Promise<boolean> {
-    const result = await db.query(`SELECT 1 FROM secrets WHERE key_path = $1`, [keyPath]);
-    return result.rows.length > 0;
+    return (await this.backend.get(keyPath)) !== null;
+  }
+
+  /**
+   * Get a secret's metadata (never its value)
+   */
+  async describe(keyPath: string): Promise<Secret | null> {
+    const stored = await this.backend.get(keyPath);
+    if (!stored) {
+      return null;
+    }
+    const { encryptedValue: _encryptedValue, ...secret } = stored;
+    return secret;
   }
 
   /**
    * Bulk store secrets
+   *
+   * All secrets are written in a single transaction: either every value is
+   * stored (with a new version each) or none are.
    */
   async storeBulk(
-    secrets: Array<{
-      keyPath: string;
-      value: string;
-      createdBy?: string;
-      description?: string;
-      secretType?: string;
-      provider?: string;
-    }>
+    secrets: Array<{ keyPath: string; value: string } & StoreSecretOptions>,
+    context?: SecretAccessContext
   ): Promise<Secret[]> {
-    const results: Secret[] = [];
+    return this.auditedBatch('store', secrets.map((secret) => secret.keyPath), context, async () => {
+      const stored = await this.backend.upsertMany(
+        secrets.map((secret) => this.toWrite(secret.keyPath, secret.value, secret))
+      );
+      for (const secret of secrets) {
+        redactor.setSecretValue(secret.keyPath, secret.value);
+      }
+      return stored;
+    });
+  }
 
-    for (const secret of secrets) {
-      const stored = await this.store(secret.keyPath, secret.value, {
-        createdBy: secret.createdBy,
-        description: secret.description,
-        secretType: secret.secretType,
-        provider: secret.provider,
-      });
-      results.push(stored);
+  /**
+   * Bulk delete secrets in a single transaction
+   *
+   * @returns Key paths that existed and were deleted
+   */
+  async deleteBulk(keyPaths: string[], context?: SecretAccessContext): Promise<string[]> {
+    return this.auditedBatch('delete', keyPaths, context, async () => {
+      const deleted = await this.backend.deleteMany(keyPaths);
+      redactor.forgetSecrets(deleted);
+      return deleted;
+    },
+      (deleted, keyPath) => (deleted.includes(keyPath) ? 'success' : 'not_found')
+    );
+  }
+
+  /**
+   * Move every secret under one key path prefix to another
+   * (e.g. project/old-name/ -> project/new-name/)
+   *
+   * Runs in a single transaction and keeps version history. Fails if a
+   * target key path already exists unless overwrite is set, in which case
+   * the existing target (and its history) is replaced.
+   */
+  async move(
+    fromPrefix: string,
+    toPrefix: string,
+    options?: { overwrite?: boolean; dryRun?: boolean },
+    context?: SecretAccessContext
+  ): Promise<Array<{ from: string; to: string }>> {
+    if (!fromPrefix.endsWith('/') || !toPrefix.endsWith('/')) {
+      throw new Error('Both prefixes must end with "/"');
+    }
+    if (fromPrefix.startsWith(toPrefix) || toPrefix.startsWith(fromPrefix)) {
+      throw new Error(`Prefixes ${fromPrefix} and ${toPrefix} overlap`);
     }
 
-    return results;
+    const sources = await this.backend.list({ keyPathPrefix: fromPrefix });
+    const keyPaths = sources.map((secret) => secret.keyPath);
+
+    if (options?.dryRun) {
+      return keyPaths.map((keyPath) => ({ from: keyPath, to: toPrefix + keyPath.substring(fromPrefix.length) }));
+    }
+
+    return this.auditedBatch('move', keyPaths, context, async () => {
+      const moved = await this.backend.movePrefix(fromPrefix, toPrefix, options?.overwrite ?? false);
+      redactor.moveSecrets(moved);
+      return moved;
+    });
   }
 
   /**
@@ -189,45 +413,252 @@ export class SecretsManager {
    */
   async updateMetadata(
     keyPath: string,
-    metadata: {
-      description?: string;
-      secretType?: string;
-      provider?: string;
-    }
+    metadata: SecretMetadataUpdate,
+    context?: SecretAccessContext
   ): Promise<Secret | null> {
-    const updates: string[] = [];
-    const params: any[] = [keyPath];
-    let paramIndex = 2;
+    return this.audited('update_metadata', keyPath, context, () =>
+      this.backend.updateMetadata(keyPath, metadata),
+      (secret) => (secret ? 'success' : 'not_found')
+    );
+  }
 
-    if (metadata.description !== undefined) {
-      updates.push(`description = $${paramIndex++}`);
-      params.push(metadata.description);
-    }
+  /**
+   * List all stored versions of a secret (newest first, no values)
+   */
+  async listVersions(keyPath: string, context?: SecretAccessContext): Promise<SecretVersion[]> {
+    return this.audited('list_versions', keyPath, context, () =>
+      this.backend.listVersions(keyPath),
+      (versions) => (versions.length > 0 ? 'success' : 'not_found')
+    );
+  }
 
-    if (metadata.secretType !== undefined) {
-      updates.push(`secret_type = $${paramIndex++}`);
-      params.push(metadata.secretType);
-    }
+  /**
+   * Retrieve the value a secret held at a specific version
+   */
+  async retrieveVersion(
+    keyPath: string,
+    version: number,
+    context?: SecretAccessContext
+  ): Promise<string | null> {
+    return this.audited('retrieve_version', keyPath, context, async () => {
+      const encrypted = await this.backend.getVersion(keyPath, version);
+      if (!encrypted) {
+        return null;
+      }
+      // Not necessarily the current value, so not tied to the key path
+      const value = this.decrypt(encrypted);
+      redactor.addKnownValue(value);
+      return value;
+    }, (value) => (value === null ? 'not_found' : 'success'));
+  }
 
-    if (metadata.provider !== undefined) {
-      updates.push(`provider = $${paramIndex++}`);
-      params.push(metadata.provider);
+  /**
+   * Roll a secret back to a previous version
+   *
+   * The old value is copied forward as a new version rather than rewinding
+   * current_version, so the rollback itself is part of the history and can
+   * be undone the same way.
+   *
+   * @returns The updated secret, or null if the key path or version doesn't exist
+   */
+  async rollback(
+    keyPath: string,
+    version: number,
+    options?: { createdBy?: string },
+    context?: SecretAccessContext
+  ): Promise<Secret | null> {
+    return this.audited('rollback', keyPath, context, async () => {
+      const secret = await this.backend.rollback(keyPath, version, options?.createdBy);
+      const current = secret ? await this.backend.get(keyPath) : null;
+      if (current) {
+        redactor.setSecretValue(keyPath, this.decrypt(current.encryptedValue));
+      }
+      return secret;
+    }, (secret) => (secret ? 'success' : 'not_found'));
+  }
+
+  /**
+   * List secrets that expire or are due for rotation within a window
+   *
+   * Already-expired and overdue secrets are included, soonest first.
+   */
+  async listExpiring(withinDays = 30, context?: SecretAccessContext): Promise<ExpiringSecret[]> {
+    return this.audited('list', undefined, context, async () => {
+      const now = Date.now();
+      const secrets = await this.backend.listDueBefore(new Date(now + withinDays * 86400000));
+
+      return secrets.map((secret) => ({
+        ...secret,
+        expired: secret.expiresAt !== undefined && secret.expiresAt.getTime() <= now,
+        rotationDue: secret.rotateAfter !== undefined && secret.rotateAfter.getTime() <= now,
+        daysUntilExpiry: secret.expiresAt !== undefined
+          ? Math.floor((secret.expiresAt.getTime() - now) / 86400000)
+          : undefined,
+      }));
+    });
+  }
+
+  /**
+   * Import a .env file into project/{projectName}/... key paths
+   *
+   * All variables are stored in one transaction via storeBulk().
+   *
+   * @param options.prefix - Only import variables whose name starts with this (case-insensitive)
+   * @param options.skipExisting - Leave secrets that already exist untouched
+   */
+  async importEnv(
+    projectName: string,
+    content: string,
+    options?: {
+      prefix?: string;
+      skipExisting?: boolean;
+      createdBy?: string;
+      provider?: string;
+    },
+    context?: SecretAccessContext
+  ): Promise<{ imported: Secret[]; skipped: string[] }> {
+    const variables = parseEnvContent(content);
+    const prefix = options?.prefix?.toUpperCase();
+    const toStore: Array<{ keyPath: string; value: string } & StoreSecretOptions> = [];
+    const skipped: string[] = [];
+
+    for (const [name, value] of Object.entries(variables)) {
+      if (prefix && !name.toUpperCase().startsWith(prefix)) {
+        continue;
+      }
+
+      const keyPath = envVarToKeyPath(projectName, name);
+      if (options?.skipExisting && await this.exists(keyPath)) {
+        skipped.push(name);
+        continue;
+      }
+
+      toStore.push({
+        keyPath,
+        value,
+        createdBy: options?.createdBy,
+        description: `${name} (imported from .env)`,
+        secretType: 'env_var',
+        provider: options?.provider,
+      });
     }
 
-    if (updates.length === 0) {
+    const imported = toStore.length > 0 ? await this.storeBulk(toStore, context) : [];
+    return { imported, skipped };
+  }
+
+  /**
+   * Render a project's secrets as .env content
+   *
+   * @param options.prefix - Only export variables whose name starts with this (case-insensitive)
+   * @param options.existingContent - Current .env file to diff against
+   * @param options.dryRun - Only return the diff and variable names, no values
+   */
+  async exportEnv(
+    projectName: string,
+    options?: {
+      prefix?: string;
+      existingContent?: string;
+      dryRun?: boolean;
+    },
+    context?: SecretAccessContext
+  ): Promise<{ content?: string; variables: string[]; diff?: EnvDiff }> {
+    const secrets = await this.backend.listWithValues(projectKeyPrefix(projectName));
+
+    const namePrefix = options?.prefix?.toUpperCase();
+    const selected = secrets.filter((secret) =>
+      !namePrefix || keyPathToEnvVar(projectName, secret.keyPath).startsWith(namePrefix)
+    );
+
+    return this.auditedBatch('export_env', selected.map((secret) => secret.keyPath), context, async () => {
+      const variables: Record<string, string> = {};
+
+      for (const secret of selected) {
+        const name = keyPathToEnvVar(projectName, secret.keyPath);
+        if (name in variables) {
+          throw new Error(`Key paths for ${name} collide when flattened to an environment variable name`);
+        }
+        variables[name] = this.decrypt(secret.encryptedValue);
+        redactor.setSecretValue(secret.keyPath, variables[name]);
+      }
+
+      const diff = options?.existingContent !== undefined
+        ? diffEnv(parseEnvContent(options.existingContent), variables)
+        : undefined;
+
+      return {
+        content: options?.dryRun
+          ? undefined
+          : renderEnvContent(variables, `Secrets for ${projectName} (exported by supervisor-service)`),
+        variables: Object.keys(variables).sort(),
+        diff,
+      };
+    });
+  }
+
+  /**
+   * Validate and store a service-account JSON key
+   *
+   * client_email, project_id, private_key_id and client_id are kept as
+   * metadata so keys can be told apart without decrypting them.
+   *
+   * @throws Error if the JSON is not a valid service-account key
+   */
+  async storeServiceAccountKey(
+    keyPath: string,
+    json: string,
+    options?: StoreSecretOptions,
+    context?: SecretAccessContext
+  ): Promise<Secret> {
+    const key = parseServiceAccountKey(json);
+    redactor.addKnownValue(key.private_key);
+
+    return this.store(keyPath, JSON.stringify(key, null, 2), {
+      ...options,
+      secretType: SERVICE_ACCOUNT_SECRET_TYPE,
+      provider: options?.provider ?? 'gcloud',
+      description: options?.description ?? `Service account ${key.client_email}`,
+      metadata: { ...options?.metadata, ...serviceAccountMetadata(key) },
+    }, context);
+  }
+
+  /**
+   * Retrieve a service-account key as the full JSON document or one field
+   *
+   * @param field - e.g. client_email or private_key (omit for the whole document)
+   * @throws Error if the secret is not a service-account key or lacks the field
+   */
+  async retrieveServiceAccountKey(
+    keyPath: string,
+    field?: ServiceAccountKeyField,
+    context?: SecretAccessContext
+  ): Promise<string | null> {
+    const json = await this.retrieve(keyPath, context);
+    if (json === null) {
       return null;
     }
 
-    updates.push(`updated_at = NOW()`);
+    redactor.addKnownValue(parseServiceAccountKey(json).private_key);
+    return field === undefined ? json : serviceAccountKeyField(json, field);
+  }
 
-    const result = await db.query<Secret>(
-      `UPDATE secrets
-       SET ${updates.join(', ')}
-       WHERE key_path = $1
-       RETURNING id, key_path, created_at, updated_at, created_by, description, secret_type, provider`,
-      params
-    );
+  /**
+   * Record an access that was decided outside SecretsManager
+   * (e.g. a request rejected by MCP project scoping)
+   */
+  async recordAccess(
+    operation: SecretOperation,
+    keyPath: string | undefined,
+    outcome: SecretAccessOutcome,
+    context?: SecretAccessContext
+  ): Promise<void> {
+    await this.auditLog.record({ operation, keyPath, outcome, context });
+  }
 
-    return result.rows.length > 0 ? result.rows[0] : null;
+  /**
+   * Query the secret access audit log
+   */
+  async queryAccessLog(filter?: SecretAuditFilter): Promise<SecretAccessEntry[]> {
+    return this.auditLog.query(filter);
   }
 }
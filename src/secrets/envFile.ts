@@ -0,0 +1,124 @@
+import dotenv from 'dotenv';
+
+/**
+ * Helpers for converting between .env files and project secret key paths
+ *
+ * A variable STRIPE_SECRET_KEY in project consilio maps to
+ * project/consilio/stripe_secret_key (key paths are lowercase only).
+ */
+
+/**
+ * Difference between an existing .env file and the one that would be exported
+ * (variable names only, never values)
+ */
+export interface EnvDiff {
+  added: string[];      // In the secrets store, missing from the file
+  removed: string[];    // In the file, not in the secrets store
+  changed: string[];    // In both, with different values
+  unchanged: string[];
+}
+
+const ENV_VAR_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PROJECT_NAME = /^[a-z0-9-]+$/;
+
+/**
+ * Parse .env content into variable/value pairs
+ */
+export function parseEnvContent(content: string): Record<string, string> {
+  return dotenv.parse(content);
+}
+
+/**
+ * Key path prefix holding a project's secrets
+ */
+export function projectKeyPrefix(projectName: string): string {
+  if (!PROJECT_NAME.test(projectName)) {
+    throw new Error(`Invalid project name: ${projectName} (use lowercase letters, numbers and hyphens)`);
+  }
+  return `project/${projectName}/`;
+}
+
+/**
+ * Map an environment variable name to its secret key path
+ */
+export function envVarToKeyPath(projectName: string, varName: string): string {
+  if (!ENV_VAR_NAME.test(varName)) {
+    throw new Error(`Invalid environment variable name: ${varName}`);
+  }
+  return `${projectKeyPrefix(projectName)}${varName.toLowerCase()}`;
+}
+
+/**
+ * Map a project secret key path back to an environment variable name
+ *
+ * Nested paths are flattened: project/consilio/stripe/webhook-secret
+ * becomes STRIPE_WEBHOOK_SECRET.
+ */
+export function keyPathToEnvVar(projectName: string, keyPath: string): string {
+  const prefix = projectKeyPrefix(projectName);
+  if (!keyPath.startsWith(prefix)) {
+    throw new Error(`Key path ${keyPath} is not under ${prefix}`);
+  }
+  return keyPath.substring(prefix.length).replace(/[/-]/g, '_').toUpperCase();
+}
+
+/**
+ * Quote a value so dotenv.parse() reads it back unchanged
+ */
+function formatEnvValue(name: string, value: string): string {
+  if (/^[A-Za-z0-9_./:@+,-]*$/.test(value)) {
+    return value;
+  }
+
+  // dotenv doesn't unescape quotes, so pick a quote character the value doesn't contain.
+  // Inside double quotes it expands \n and \r, so values with a backslash need another quote.
+  for (const quote of ['"', "'", '`']) {
+    if (!value.includes(quote) && !(quote === '"' && value.includes('\\'))) {
+      return `${quote}${value}${quote}`;
+    }
+  }
+
+  throw new Error(`Value of ${name} contains every quote character and can't be written to a .env file`);
+}
+
+/**
+ * Render variables as .env content (sorted by name)
+ */
+export function renderEnvContent(variables: Record<string, string>, header?: string): string {
+  const lines: string[] = [];
+
+  if (header) {
+    lines.push(...header.split('\n').map((line) => `# ${line}`));
+  }
+
+  for (const name of Object.keys(variables).sort()) {
+    lines.push(`${name}=${formatEnvValue(name, variables[name])}`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Compare an existing .env file with the variables that would be exported
+ */
+export function diffEnv(existing: Record<string, string>, exported: Record<string, string>): EnvDiff {
+  const diff: EnvDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const name of Object.keys(exported).sort()) {
+    if (!(name in existing)) {
+      diff.added.push(name);
+    } else if (existing[name] !== exported[name]) {
+      diff.changed.push(name);
+    } else {
+      diff.unchanged.push(name);
+    }
+  }
+
+  for (const name of Object.keys(existing).sort()) {
+    if (!(name in exported)) {
+      diff.removed.push(name);
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+
+/**
+ * Sign a JWT with RS256 (the only algorithm GitHub Apps and Google
+ * service accounts accept)
+ */
+export function signJwtRS256(claims: Record<string, unknown>, privateKey: string): string {
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url');
+
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(claims)}`;
+  const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(privateKey, 'base64url');
+
+  return `${unsigned}.${signature}`;
+}
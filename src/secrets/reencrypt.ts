@@ -0,0 +1,92 @@
+import dotenv from 'dotenv';
+import db from '../db/pool.js';
+import { SecretsKeyring } from './SecretsKeyring.js';
+import { SecretReencryptionJob } from './SecretReencryptionJob.js';
+import { secretsBackendFromEnv } from './SecretsBackend.js';
+import { FileSecretsBackend } from './FileSecretsBackend.js';
+import { installConsoleRedaction } from './SecretRedactor.js';
+
+dotenv.config();
+installConsoleRedaction();
+
+/**
+ * Re-encrypt all secrets with the active encryption key
+ *
+ * Usage:
+ *   npm run secrets:reencrypt -- [--batch-size 100] [--max-batches 10] [--status]
+ *
+ * Rotation procedure:
+ *   1. Add the new key:  ENCRYPTION_KEYS=default:<old hex>,2026-10:<new hex>
+ *   2. Restart the MCP servers so new writes use the new key
+ *   3. Run this script (safe to interrupt; re-running resumes the job)
+ *   4. Once it reports completed, drop the old key from ENCRYPTION_KEYS
+ */
+class ReencryptCommand {
+  private args: string[];
+
+  constructor(args: string[]) {
+    this.args = args;
+  }
+
+  async run(): Promise<void> {
+    try {
+      const keyring = SecretsKeyring.fromEnv();
+      const backend = secretsBackendFromEnv(keyring);
+
+      if (backend instanceof FileSecretsBackend) {
+        const reencrypted = await backend.reencryptAll();
+        console.log(`✅ Re-encrypted ${reencrypted} values in ${backend.getVaultPath()} with key ${keyring.activeKeyId}`);
+        return;
+      }
+
+      const job = new SecretReencryptionJob(keyring);
+
+      if (this.args.includes('--status')) {
+        const latest = await job.getLatestJob();
+        console.log(latest ? JSON.stringify(latest, null, 2) : 'No re-encryption jobs have run yet');
+        return;
+      }
+
+      console.log(`🔑 Re-encrypting secrets with key: ${keyring.activeKeyId}`);
+      console.log(`   Keyring: ${keyring.keyIds.join(', ')}\n`);
+
+      const progress = await job.run({
+        batchSize: this.numberArg('--batch-size'),
+        maxBatches: this.numberArg('--max-batches'),
+        onProgress: (p) => {
+          console.log(
+            `  [job ${p.jobId}] ${p.phase}: scanned ${p.rowsScanned}, ` +
+            `re-encrypted ${p.secretsReencrypted} secrets / ${p.versionsReencrypted} versions`
+          );
+        },
+      });
+
+      if (progress.status === 'completed') {
+        console.log(`\n✅ Job ${progress.jobId} completed: every value now uses key ${progress.targetKeyId}`);
+      } else {
+        console.log(`\n⏸️  Job ${progress.jobId} paused in phase ${progress.phase}; run again to resume`);
+      }
+    } catch (error) {
+      console.error('\n❌ Re-encryption failed:', error instanceof Error ? error.message : error);
+      process.exitCode = 1;
+    } finally {
+      await db.close();
+    }
+  }
+
+  private numberArg(name: string): number | undefined {
+    const index = this.args.indexOf(name);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const value = parseInt(this.args[index + 1], 10);
+    if (isNaN(value)) {
+      throw new Error(`${name} requires a number`);
+    }
+    return value;
+  }
+}
+
+const command = new ReencryptCommand(process.argv.slice(2));
+command.run();
@@ -0,0 +1,143 @@
+/**
+ * Confidence scoring for candidate secrets
+ *
+ * Regex patterns alone can't tell a Cloudflare token from a git commit
+ * SHA, and keyword fallbacks accept anything typed after "what's the
+ * password?". The scorer combines what the value looks like (entropy,
+ * character classes) with how it was found (distinctive pattern, generic
+ * pattern, or context only) and what the conversation was about.
+ */
+
+/**
+ * How a candidate was found
+ * - prefixed: matched a pattern with a literal prefix (sk_live_, ghp_, AIza)
+ * - generic: matched a pattern without one ([a-zA-Z0-9]{40})
+ * - context: no pattern matched; only the conversation suggests a secret
+ */
+export type SecretEvidence = 'prefixed' | 'generic' | 'context';
+
+export interface SecretScore {
+  confidence: number;      // 0..1
+  reasons: string[];       // Why the score moved, for debugging thresholds
+}
+
+export interface ScoreInput {
+  value: string;
+  evidence: SecretEvidence;
+  provider?: string;
+  question?: string;
+  conversationHistory?: string[];
+}
+
+const BASE_CONFIDENCE: Record<SecretEvidence, number> = {
+  prefixed: 0.9,
+  generic: 0.4,
+  context: 0.35,
+};
+
+const SECRET_KEYWORDS = [
+  'api key', 'api-key', 'apikey', 'token', 'secret', 'password', 'passwd',
+  'credential', 'private key', 'access key', 'connection string', 'database url',
+];
+
+// Only the most recent messages say anything about the value just provided
+const HISTORY_WINDOW = 3;
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (value.length === 0) {
+    return 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Which character classes a value uses
+ */
+export function characterClasses(value: string): {
+  lower: boolean;
+  upper: boolean;
+  digit: boolean;
+  symbol: boolean;
+  count: number;
+} {
+  const lower = /[a-z]/.test(value);
+  const upper = /[A-Z]/.test(value);
+  const digit = /[0-9]/.test(value);
+  const symbol = /[^a-zA-Z0-9\s]/.test(value);
+  return { lower, upper, digit, symbol, count: [lower, upper, digit, symbol].filter(Boolean).length };
+}
+
+/**
+ * Whether a detection pattern starts with a literal, provider-specific prefix
+ */
+export function isPrefixedPattern(pattern: string): boolean {
+  return /^\^?[A-Za-z0-9_-]{3,}/.test(pattern);
+}
+
+/**
+ * Score how likely a value is to be a real secret
+ */
+export function scoreSecret(input: ScoreInput): SecretScore {
+  const { value, evidence } = input;
+  const reasons: string[] = [`${evidence} match`];
+  let confidence = BASE_CONFIDENCE[evidence];
+
+  const adjust = (delta: number, reason: string) => {
+    confidence += delta;
+    reasons.push(`${reason} (${delta > 0 ? '+' : ''}${delta})`);
+  };
+
+  // Randomness: keys are generated, words and sentences aren't
+  const entropy = shannonEntropy(value);
+  if (entropy >= 4.0) {
+    adjust(0.15, `high entropy ${entropy.toFixed(2)}`);
+  } else if (entropy < 3.0) {
+    adjust(-0.3, `low entropy ${entropy.toFixed(2)}`);
+  }
+
+  const classes = characterClasses(value);
+  if (classes.count >= 3) {
+    adjust(0.1, `${classes.count} character classes`);
+  } else if (classes.count === 1) {
+    adjust(-0.2, 'single character class');
+  }
+
+  if (/\s/.test(value)) {
+    adjust(-0.5, 'contains whitespace');
+  }
+
+  // Lowercase hex of hash length is far more often a commit SHA or digest
+  if (evidence !== 'prefixed' && /^[0-9a-f]{32}$|^[0-9a-f]{40}$|^[0-9a-f]{64}$/.test(value)) {
+    adjust(-0.25, 'looks like a hash digest');
+  }
+
+  // What the conversation was about
+  const contextText = [input.question ?? '', ...(input.conversationHistory ?? []).slice(-HISTORY_WINDOW)]
+    .join('\n')
+    .toLowerCase();
+  if (SECRET_KEYWORDS.some((keyword) => contextText.includes(keyword))) {
+    adjust(0.15, 'conversation mentions a secret');
+  }
+  if (input.provider && contextText.includes(input.provider.split('_')[0].toLowerCase())) {
+    adjust(0.1, `conversation mentions ${input.provider}`);
+  }
+
+  return {
+    confidence: Math.round(Math.min(1, Math.max(0, confidence)) * 100) / 100,
+    reasons,
+  };
+}
@@ -0,0 +1,105 @@
+import crypto from 'crypto';
+
+/**
+ * Helpers for Google Cloud service-account JSON key files
+ *
+ * Keys are stored whole (the JSON document) with secret type
+ * gcp_service_account; client_email and friends go in the secret's
+ * metadata so they can be listed without decrypting anything.
+ */
+
+export const SERVICE_ACCOUNT_SECRET_TYPE = 'gcp_service_account';
+
+/**
+ * A service-account key file as downloaded from the console or IAM API
+ */
+export interface ServiceAccountKey {
+  type: 'service_account';
+  project_id: string;
+  private_key_id: string;
+  private_key: string;
+  client_email: string;
+  client_id: string;
+  auth_uri?: string;
+  token_uri: string;
+  auth_provider_x509_cert_url?: string;
+  client_x509_cert_url?: string;
+  universe_domain?: string;
+}
+
+export type ServiceAccountKeyField = keyof ServiceAccountKey;
+
+const REQUIRED_FIELDS = [
+  'project_id',
+  'private_key_id',
+  'private_key',
+  'client_email',
+  'client_id',
+  'token_uri',
+] as const;
+
+const SERVICE_ACCOUNT_EMAIL = /^[^@\s]+@[^@\s]+\.iam\.gserviceaccount\.com$/;
+
+/**
+ * Parse and validate a service-account JSON key
+ *
+ * @throws Error if the JSON is malformed, fields are missing or the
+ *         private key is not a usable PEM key (never includes key material)
+ */
+export function parseServiceAccountKey(json: string): ServiceAccountKey {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Service account key is not valid JSON');
+  }
+
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('Service account key must be a JSON object');
+  }
+  if (parsed.type !== 'service_account') {
+    throw new Error(`Expected a key of type "service_account", got "${parsed.type}"`);
+  }
+
+  const missing = REQUIRED_FIELDS.filter((field) => typeof parsed[field] !== 'string' || parsed[field] === '');
+  if (missing.length > 0) {
+    throw new Error(`Service account key is missing fields: ${missing.join(', ')}`);
+  }
+
+  if (!SERVICE_ACCOUNT_EMAIL.test(parsed.client_email)) {
+    throw new Error(`Invalid service account client_email: ${parsed.client_email}`);
+  }
+
+  try {
+    crypto.createPrivateKey(parsed.private_key);
+  } catch {
+    throw new Error('Service account private_key is not a valid PEM private key');
+  }
+
+  return parsed as ServiceAccountKey;
+}
+
+/**
+ * Read one field of a service-account JSON key
+ *
+ * @throws Error if the JSON is not a valid key or lacks the field
+ */
+export function serviceAccountKeyField(json: string, field: ServiceAccountKeyField): string {
+  const value = parseServiceAccountKey(json)[field];
+  if (typeof value !== 'string') {
+    throw new Error(`Service account key has no field '${field}'`);
+  }
+  return value;
+}
+
+/**
+ * Non-secret attributes stored as the secret's metadata
+ */
+export function serviceAccountMetadata(key: ServiceAccountKey): Record<string, string> {
+  return {
+    client_email: key.client_email,
+    project_id: key.project_id,
+    private_key_id: key.private_key_id,
+    client_id: key.client_id,
+  };
+}
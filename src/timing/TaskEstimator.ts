@@ -0,0 +1,164 @@
+import db from '../db/pool.js';
+
+export type TaskComplexity = 'simple' | 'moderate' | 'complex';
+
+export interface TaskEstimateQuery {
+  taskType: string;
+  projectName?: string;
+  modelUsed?: string;
+  complexity?: TaskComplexity;
+  filesChanged?: number;  // Expected size of the change
+  linesChanged?: number;
+}
+
+export interface TaskEstimate {
+  taskType: string;
+  p50Seconds: number;
+  p90Seconds: number;
+  confidence: number;        // 0-1: how much relevant, recent history backs the estimate
+  sampleCount: number;       // Completed tasks of this type considered
+  effectiveSamples: number;  // Sample count after weighting (Kish effective sample size)
+}
+
+export interface TaskEstimatorOptions {
+  halfLifeDays?: number;  // Age at which a sample counts half (default: 30)
+  maxSamples?: number;    // Most recent completed tasks considered (default: 500)
+}
+
+interface SampleRow {
+  duration_seconds: number;
+  project_name: string | null;
+  model_used: string | null;
+  complexity: TaskComplexity | null;
+  files_changed: number | null;
+  lines_changed: number | null;
+  age_days: number;
+}
+
+const DEFAULT_HALF_LIFE_DAYS = 30;
+const DEFAULT_MAX_SAMPLES = 500;
+
+// Weight kept by a sample that differs from the query in that dimension
+const PROJECT_MISMATCH_WEIGHT = 0.5;
+const MODEL_MISMATCH_WEIGHT = 0.5;
+const COMPLEXITY_STEP_WEIGHTS = [1, 0.4, 0.1];  // Indexed by distance: same, one step, two steps
+const COMPLEXITY_ORDER: TaskComplexity[] = ['simple', 'moderate', 'complex'];
+
+// Effective samples at which the sample-size part of the confidence reaches 0.5
+const CONFIDENCE_HALF_SAMPLES = 5;
+
+/**
+ * Predicts task durations from completed task_executions
+ *
+ * Every completed task of the same type is a sample, weighted by how closely
+ * it matches the query (project, model, complexity, size of the change) and
+ * by how recent it is. The estimate is the weighted median and 90th
+ * percentile of the sample durations.
+ */
+export class TaskEstimator {
+  private halfLifeDays: number;
+  private maxSamples: number;
+
+  constructor(options?: TaskEstimatorOptions) {
+    this.halfLifeDays = options?.halfLifeDays ?? DEFAULT_HALF_LIFE_DAYS;
+    this.maxSamples = options?.maxSamples ?? DEFAULT_MAX_SAMPLES;
+  }
+
+  /**
+   * Estimate how long a task will take
+   *
+   * @returns null if no task of this type has completed yet
+   */
+  async estimate(query: TaskEstimateQuery): Promise<TaskEstimate | null> {
+    const result = await db.query<SampleRow>(
+      `SELECT duration_seconds, project_name, model_used, complexity, files_changed, lines_changed,
+              EXTRACT(EPOCH FROM (NOW() - completed_at)) / 86400 AS age_days
+       FROM task_executions
+       WHERE task_type = $1
+         AND status = 'completed'
+         AND duration_seconds IS NOT NULL
+       ORDER BY completed_at DESC
+       LIMIT $2`,
+      [query.taskType, this.maxSamples]
+    );
+
+    const samples = result.rows.map((row) => ({
+      duration: Number(row.duration_seconds),
+      weight: this.weigh(query, row),
+    }));
+    const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0);
+    if (samples.length === 0 || totalWeight === 0) {
+      return null;
+    }
+
+    const sumSquares = samples.reduce((sum, sample) => sum + sample.weight ** 2, 0);
+    const effectiveSamples = totalWeight ** 2 / sumSquares;
+    // Weight of the typical sample behind the estimate: poor matches should not look as good as exact ones
+    const relevance = sumSquares / totalWeight;
+    const confidence = (effectiveSamples / (effectiveSamples + CONFIDENCE_HALF_SAMPLES)) * relevance;
+
+    return {
+      taskType: query.taskType,
+      p50Seconds: Math.round(weightedQuantile(samples, 0.5, totalWeight)),
+      p90Seconds: Math.round(weightedQuantile(samples, 0.9, totalWeight)),
+      confidence: Math.round(confidence * 100) / 100,
+      sampleCount: samples.length,
+      effectiveSamples: Math.round(effectiveSamples * 10) / 10,
+    };
+  }
+
+  /**
+   * Weight of one sample for a query, between 0 and 1
+   */
+  private weigh(query: TaskEstimateQuery, row: SampleRow): number {
+    let weight = 0.5 ** (Math.max(0, Number(row.age_days)) / this.halfLifeDays);
+
+    if (query.projectName && row.project_name !== query.projectName) {
+      weight *= PROJECT_MISMATCH_WEIGHT;
+    }
+    if (query.modelUsed && row.model_used !== query.modelUsed) {
+      weight *= MODEL_MISMATCH_WEIGHT;
+    }
+    if (query.complexity && row.complexity) {
+      const distance = Math.abs(
+        COMPLEXITY_ORDER.indexOf(query.complexity) - COMPLEXITY_ORDER.indexOf(row.complexity)
+      );
+      weight *= COMPLEXITY_STEP_WEIGHTS[distance];
+    }
+    weight *= sizeSimilarity(query.filesChanged, row.files_changed);
+    weight *= sizeSimilarity(query.linesChanged, row.lines_changed);
+
+    return weight;
+  }
+}
+
+/**
+ * 1 for equal sizes, falling off with the ratio between them (2x apart -> ~0.6)
+ *
+ * Unknown on either side counts as a match rather than a penalty.
+ */
+function sizeSimilarity(expected: number | undefined, actual: number | null): number {
+  if (expected === undefined || actual === null) {
+    return 1;
+  }
+  return 1 / (1 + Math.abs(Math.log((expected + 1) / (actual + 1))));
+}
+
+/**
+ * Smallest duration whose cumulative weight reaches the quantile
+ */
+function weightedQuantile(
+  samples: { duration: number; weight: number }[],
+  quantile: number,
+  totalWeight: number
+): number {
+  const sorted = [...samples].sort((a, b) => a.duration - b.duration);
+  let cumulative = 0;
+  for (const sample of sorted) {
+    cumulative += sample.weight;
+    if (cumulative >= quantile * totalWeight) {
+      return sample.duration;
+    }
+  }
+  return sorted[sorted.length - 1].duration;
+}
@@ -1,4 +1,8 @@
 import db from '../db/pool.js';
+import { buildTaskTree, TaskTreeReport, TimedTaskExecution } from './taskTree.js';
+
+// abandoned: still running when its heartbeats stopped (the agent likely crashed)
+export type TaskStatus = 'running' | 'completed' | 'failed' | 'abandoned';
 
 export interface TaskExecution {
   id: number;
@@ -19,7 +23,8 @@ export interface TaskExecution {
   linesChanged?: number;
   parallelExecution?: boolean;
   parentTaskId?: string;
-  status: 'running' | 'completed' | 'failed';
+  lastHeartbeatAt?: Date;  // Unset until the first heartbeat
+  status: TaskStatus;
   errorMessage?: string;
 }
 
@@ -35,7 +40,29 @@ export interface TaskStats {
   successRate: number;
 }
 
+// task_executions columns under their TaskExecution names
+const TASK_COLUMNS = `
+  id, task_id AS "taskId", task_type AS "taskType", task_description AS "taskDescription",
+  started_at AS "startedAt", completed_at AS "completedAt", duration_seconds AS "durationSeconds",
+  estimated_seconds AS "estimatedSeconds", estimation_error::float AS "estimationError",
+  project_name AS "projectName", epic_id AS "epicId", issue_number AS "issueNumber",
+  model_used AS "modelUsed", complexity, files_changed AS "filesChanged", lines_changed AS "linesChanged",
+  parallel_execution AS "parallelExecution", parent_task_id AS "parentTaskId",
+  last_heartbeat_at AS "lastHeartbeatAt", status, error_message AS "errorMessage"`;
+
+export const DEFAULT_STALE_AFTER_SECONDS = 30 * 60;
+
 export class TaskTimer {
+  private staleAfterSeconds: number;
+
+  /**
+   * @param options.staleAfterSeconds - How long a running task may go without
+   *        a heartbeat before it counts as abandoned (default: 30 minutes)
+   */
+  constructor(options?: { staleAfterSeconds?: number }) {
+    this.staleAfterSeconds = options?.staleAfterSeconds ?? DEFAULT_STALE_AFTER_SECONDS;
+  }
+
   /**
    * Start timing a task
    */
@@ -79,6 +106,25 @@ export class TaskTimer {
     return result.rows[0];
   }
 
+  /**
+   * Record that a running task's agent is still alive
+   *
+   * @param projectName - Only touch the task if it belongs to this project
+   *                      (so one project cannot keep another's tasks alive)
+   * @returns false if the task is not running (finished, abandoned or unknown)
+   */
+  async heartbeat(taskId: string, projectName?: string): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE task_executions
+       SET last_heartbeat_at = NOW()
+       WHERE task_id = $1 AND status = 'running'
+         AND ($2::text IS NULL OR project_name = $2)`,
+      [taskId, projectName ?? null]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
   /**
    * Complete a task with success
    */
@@ -136,7 +182,7 @@ export class TaskTimer {
   async listTasks(filter?: {
     projectName?: string;
     taskType?: string;
-    status?: 'running' | 'completed' | 'failed';
+    status?: TaskStatus;
     limit?: number;
   }): Promise<TaskExecution[]> {
     let query = `SELECT * FROM task_executions WHERE 1=1`;
@@ -242,25 +288,113 @@ export class TaskTimer {
   }
 
   /**
-   * Get running tasks
+   * Get a task and every subtask below it (parent_task_id), with rolled-up timing
+   *
+   * @returns null if the task does not exist
+   */
+  async getTaskTree(rootTaskId: string): Promise<TaskTreeReport | null> {
+    // The path guards against parent_task_id cycles; a re-run task ID keeps its latest execution
+    const result = await db.query<TimedTaskExecution>(
+      `WITH RECURSIVE tree AS (
+         SELECT te.*, ARRAY[te.task_id] AS path
+         FROM task_executions te
+         WHERE te.task_id = $1
+         UNION ALL
+         SELECT child.*, tree.path || child.task_id
+         FROM task_executions child
+         JOIN tree ON child.parent_task_id = tree.task_id
+         WHERE NOT child.task_id = ANY(tree.path)
+       )
+       SELECT DISTINCT ON (task_id) ${TASK_COLUMNS},
+              EXTRACT(EPOCH FROM started_at)::float AS "startedAtEpoch",
+              COALESCE(duration_seconds, EXTRACT(EPOCH FROM (COALESCE(completed_at, NOW()) - started_at)))::float AS "elapsedSeconds"
+       FROM tree
+       ORDER BY task_id, id DESC`,
+      [rootTaskId]
+    );
+
+    return buildTaskTree(result.rows, rootTaskId);
+  }
+
+  /**
+   * Get running tasks (those past the staleness threshold are left out even before they are marked)
+   *
+   * Only tasks that have sent a heartbeat can go stale.
    */
   async getRunningTasks(): Promise<TaskExecution[]> {
     const result = await db.query<TaskExecution>(
       `SELECT * FROM task_executions
        WHERE status = 'running'
-       ORDER BY started_at DESC`
+         AND (last_heartbeat_at IS NULL OR last_heartbeat_at >= NOW() - make_interval(secs => $1))
+       ORDER BY started_at DESC`,
+      [this.staleAfterSeconds]
     );
 
     return result.rows;
   }
 
+  /**
+   * Mark running tasks without a heartbeat for longer than the threshold as abandoned
+   *
+   * Tasks that never sent a heartbeat are left alone: their agents may not
+   * heartbeat at all, so silence says nothing about them.
+   *
+   * completed_at is set to the last heartbeat; the duration stays empty so
+   * estimates and statistics ignore them. A late complete/fail still wins.
+   *
+   * @returns IDs of the abandoned tasks
+   */
+  async abandonStaleTasks(): Promise<string[]> {
+    const result = await db.query<{ task_id: string }>(
+      `UPDATE task_executions
+       SET status = 'abandoned',
+           completed_at = last_heartbeat_at,
+           error_message = 'No heartbeat since ' || last_heartbeat_at::TEXT
+       WHERE status = 'running'
+         AND last_heartbeat_at < NOW() - make_interval(secs => $1)
+       RETURNING task_id`,
+      [this.staleAfterSeconds]
+    );
+
+    return result.rows.map((row) => row.task_id);
+  }
+
+  /**
+   * Abandon stale tasks on a timer; runs never overlap
+   *
+   * @returns Function that stops the sweeper
+   */
+  startStaleTaskSweeper(intervalMs: number): () => void {
+    let running = false;
+
+    const timer = setInterval(async () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      try {
+        const abandoned = await this.abandonStaleTasks();
+        if (abandoned.length > 0) {
+          console.error(`[TaskTimer] Marked ${abandoned.length} stale task(s) abandoned:`, abandoned);
+        }
+      } catch (error) {
+        console.error('[TaskTimer] Stale task sweep failed:', error);
+      } finally {
+        running = false;
+      }
+    }, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  }
+
   /**
    * Delete old completed tasks (cleanup)
    */
   async cleanupOldTasks(daysToKeep = 90): Promise<number> {
     const result = await db.query(
       `DELETE FROM task_executions
-       WHERE status IN ('completed', 'failed')
+       WHERE status IN ('completed', 'failed', 'abandoned')
        AND completed_at < NOW() - INTERVAL '${daysToKeep} days'`
     );
 
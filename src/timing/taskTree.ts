@@ -0,0 +1,181 @@
+import type { TaskExecution } from './TaskTimer.js';
+
+/**
+ * Builds and renders a task's subtree (parent_task_id links) with rolled-up timing
+ *
+ * Subtasks flagged parallel_execution are taken to run alongside their
+ * parallel siblings; the others run one after another.
+ */
+
+/**
+ * A task execution with its start and elapsed time as plain numbers
+ */
+export interface TimedTaskExecution extends TaskExecution {
+  startedAtEpoch: number;   // Seconds since the epoch
+  elapsedSeconds: number;   // Duration, time so far if running, or up to the last heartbeat if abandoned
+}
+
+export interface TaskTreeNode {
+  task: TaskExecution;
+  depth: number;
+  children: TaskTreeNode[];     // In start order
+  durationSeconds: number;      // Own duration (so far, if running)
+  wallClockSeconds: number;     // First start to last finish in the subtree
+  summedSeconds: number;        // Leaf durations added up: the time without any parallelism
+  criticalPathSeconds: number;  // Sequential subtasks added, parallel ones as the longest of them
+  onCriticalPath: boolean;
+}
+
+export interface TaskTreeReport {
+  root: TaskTreeNode;
+  taskCount: number;
+  runningCount: number;
+  wallClockSeconds: number;
+  summedSeconds: number;
+  criticalPath: string[];          // Task IDs, outermost first
+  criticalPathSeconds: number;
+  parallelismSavedSeconds: number; // summedSeconds - wallClockSeconds, never negative
+}
+
+/**
+ * Assemble the tree under rootTaskId from its executions
+ *
+ * @returns null if rootTaskId is not among the executions
+ */
+export function buildTaskTree(executions: TimedTaskExecution[], rootTaskId: string): TaskTreeReport | null {
+  const rootExecution = executions.find((execution) => execution.taskId === rootTaskId);
+  if (!rootExecution) {
+    return null;
+  }
+
+  const childrenByParent = new Map<string, TimedTaskExecution[]>();
+  for (const execution of executions) {
+    if (execution.parentTaskId && execution.taskId !== rootTaskId) {
+      const siblings = childrenByParent.get(execution.parentTaskId) ?? [];
+      siblings.push(execution);
+      childrenByParent.set(execution.parentTaskId, siblings);
+    }
+  }
+
+  const visited = new Set<string>();
+  const build = (execution: TimedTaskExecution, depth: number): { node: TaskTreeNode; start: number; end: number } => {
+    visited.add(execution.taskId);
+    const built = (childrenByParent.get(execution.taskId) ?? [])
+      .filter((child) => !visited.has(child.taskId))
+      .sort((a, b) => a.startedAtEpoch - b.startedAtEpoch)
+      .map((child) => build(child, depth + 1));
+    const children = built.map((child) => child.node);
+
+    const start = Math.min(execution.startedAtEpoch, ...built.map((child) => child.start));
+    const end = Math.max(execution.startedAtEpoch + execution.elapsedSeconds, ...built.map((child) => child.end));
+
+    const { task, elapsedSeconds } = withoutTiming(execution);
+    const node: TaskTreeNode = {
+      task,
+      depth,
+      children,
+      durationSeconds: elapsedSeconds,
+      wallClockSeconds: Math.round(end - start),
+      summedSeconds: children.length > 0
+        ? children.reduce((sum, child) => sum + child.summedSeconds, 0)
+        : elapsedSeconds,
+      criticalPathSeconds: children.length > 0 ? criticalChildren(children).seconds : elapsedSeconds,
+      onCriticalPath: false,
+    };
+    return { node, start, end };
+  };
+
+  const { node: root } = build(rootExecution, 0);
+
+  const criticalPath: string[] = [];
+  const mark = (node: TaskTreeNode) => {
+    node.onCriticalPath = true;
+    criticalPath.push(node.task.taskId);
+    criticalChildren(node.children).nodes.forEach(mark);
+  };
+  mark(root);
+
+  const nodes = flatten(root);
+  return {
+    root,
+    taskCount: nodes.length,
+    runningCount: nodes.filter((node) => node.task.status === 'running').length,
+    wallClockSeconds: root.wallClockSeconds,
+    summedSeconds: root.summedSeconds,
+    criticalPath,
+    criticalPathSeconds: root.criticalPathSeconds,
+    parallelismSavedSeconds: Math.max(0, root.summedSeconds - root.wallClockSeconds),
+  };
+}
+
+/**
+ * Children on the critical path: every sequential one plus the longest parallel one
+ */
+function criticalChildren(children: TaskTreeNode[]): { nodes: TaskTreeNode[]; seconds: number } {
+  const sequential = children.filter((child) => !child.task.parallelExecution);
+  const longestParallel = children
+    .filter((child) => child.task.parallelExecution)
+    .reduce<TaskTreeNode | null>(
+      (longest, child) => (!longest || child.criticalPathSeconds > longest.criticalPathSeconds ? child : longest),
+      null
+    );
+
+  const nodes = longestParallel
+    ? children.filter((child) => sequential.includes(child) || child === longestParallel)
+    : sequential;
+  return { nodes, seconds: nodes.reduce((sum, node) => sum + node.criticalPathSeconds, 0) };
+}
+
+function withoutTiming(execution: TimedTaskExecution): { task: TaskExecution; elapsedSeconds: number } {
+  const { startedAtEpoch: _startedAtEpoch, elapsedSeconds, ...task } = execution;
+  return { task, elapsedSeconds };
+}
+
+function flatten(node: TaskTreeNode): TaskTreeNode[] {
+  return [node, ...node.children.flatMap(flatten)];
+}
+
+/**
+ * Render a task tree as indented text, critical path marked with *
+ */
+export function renderTaskTree(report: TaskTreeReport): string {
+  const lines = [
+    `Task tree for ${report.root.task.taskId}: ${report.taskCount} task(s)` +
+      (report.runningCount > 0 ? `, ${report.runningCount} still running` : ''),
+    `Wall clock: ${formatDuration(report.wallClockSeconds)}, summed: ${formatDuration(report.summedSeconds)}, ` +
+      `parallelism saved: ${formatDuration(report.parallelismSavedSeconds)}`,
+    `Critical path (${formatDuration(report.criticalPathSeconds)}): ${report.criticalPath.join(' -> ')}`,
+    '',
+  ];
+
+  const renderNode = (node: TaskTreeNode, prefix: string, connector: string) => {
+    const task = node.task;
+    const details = [
+      task.taskType,
+      task.status,
+      formatDuration(node.durationSeconds),
+      ...(node.children.length > 0 ? [`wall ${formatDuration(node.wallClockSeconds)}`] : []),
+      ...(task.parallelExecution ? ['parallel'] : []),
+    ];
+    lines.push(`${prefix}${connector}${node.onCriticalPath ? '* ' : ''}${task.taskId} [${details.join(', ')}]`);
+
+    const childPrefix = prefix + (connector === '├── ' ? '│   ' : connector === '└── ' ? '    ' : '');
+    node.children.forEach((child, index) => {
+      renderNode(child, childPrefix, index === node.children.length - 1 ? '└── ' : '├── ');
+    });
+  };
+  renderNode(report.root, '', '');
+
+  return `${lines.join('\n')}\n`;
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const secs = rounded % 60;
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m ${secs}s` : `${secs}s`;
+}